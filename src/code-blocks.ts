@@ -0,0 +1,120 @@
+/**
+ * Markdown fenced code block parsing used by ExtractCodeBlocksCommand and ParseJsonResponseCommand
+ *
+ * Recognized fences (``` or ~~~, three or more, indented up to three spaces):
+ *   ```ts                      language only
+ *   ```ts src/tasks/foo.ts     language and filename
+ *   ```ts:src/tasks/foo.ts     language and filename
+ *   ```ts title="foo.ts"       filename from title=, file=, filename= or path=
+ *
+ * A block left open at the end of the text (e.g. a truncated agent response) runs to the end.
+ */
+
+/**
+ * A fenced code block found in markdown text
+ */
+export interface CodeBlock {
+  /** Language from the info string, lower-cased ('' when absent) */
+  language: string;
+  /** Filename annotation from the info string, if any */
+  filename?: string;
+  /** Block content without the fences (no trailing newline) */
+  content: string;
+  /** 1-based line number of the opening fence */
+  line: number;
+}
+
+/**
+ * Language aliases so a filter for 'typescript' also matches ```ts blocks
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  yml: 'yaml',
+  ps1: 'powershell',
+  md: 'markdown',
+};
+
+/**
+ * Normalize a language name to its canonical form (e.g. 'ts' → 'typescript')
+ */
+export function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Find all fenced code blocks in markdown text, in order
+ */
+export function parseCodeBlocks(text: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const lines = text.split(/\r?\n/);
+  let open: { fence: string; info: string; line: number; body: string[] } | null = null;
+
+  lines.forEach((line, index) => {
+    if (open) {
+      const closing = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+      if (closing && closing[1][0] === open.fence[0] && closing[1].length >= open.fence.length) {
+        blocks.push(createBlock(open.info, open.body, open.line));
+        open = null;
+      } else {
+        open.body.push(line);
+      }
+      return;
+    }
+
+    const opening = line.match(/^ {0,3}(`{3,}|~{3,})(.*)$/);
+    // Backtick fences may not contain backticks in their info string
+    if (opening && !(opening[1][0] === '`' && opening[2].includes('`'))) {
+      open = { fence: opening[1], info: opening[2].trim(), line: index + 1, body: [] };
+    }
+  });
+
+  if (open) {
+    const unterminated = open as { info: string; line: number; body: string[] };
+    blocks.push(createBlock(unterminated.info, unterminated.body, unterminated.line));
+  }
+
+  return blocks;
+}
+
+/**
+ * Build a CodeBlock from a fence info string and its body lines
+ */
+function createBlock(info: string, body: string[], line: number): CodeBlock {
+  const [first = '', ...rest] = info.split(/\s+/).filter(Boolean);
+  let language = first;
+  let filename: string | undefined;
+
+  // ```ts:path/to/file.ts
+  const colon = first.indexOf(':');
+  if (colon > 0) {
+    language = first.slice(0, colon);
+    filename = first.slice(colon + 1) || undefined;
+  }
+
+  // A bare language-less filename such as ```src/foo.ts
+  if (!filename && /[./]/.test(language) && !/^[\w+#-]+$/.test(language)) {
+    filename = language;
+    language = '';
+  }
+
+  if (!filename) {
+    const attribute = info.match(/\b(?:title|file|filename|path)=("([^"]*)"|'([^']*)'|(\S+))/);
+    if (attribute) {
+      filename = attribute[2] ?? attribute[3] ?? attribute[4];
+    } else {
+      filename = rest.find(word => !word.includes('=') && /[./]/.test(word));
+    }
+  }
+
+  return {
+    language: language.toLowerCase(),
+    filename: filename || undefined,
+    content: body.join('\n'),
+    line,
+  };
+}
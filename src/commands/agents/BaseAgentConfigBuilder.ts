@@ -37,6 +37,14 @@ export abstract class BaseAgentConfigBuilder<T extends IAgentConfig> {
     return this;
   }
 
+  /**
+   * Show the shell window while the agent runs (Windows; useful for debugging)
+   */
+  showingShell(): this {
+    this.config.showShell = true;
+    return this;
+  }
+
   /**
    * Build and return the configuration
    */
@@ -1,20 +1,30 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../../types.js';
-import { IAgentConfig, executeAgent } from './base.js';
+import { FileNameDecorator } from '../../decorators.js';
+import { IAgentConfig, AgentRunOptions, executeAgent } from './base.js';
+import { AgentOutputStream } from './stream.js';
 
 /**
  * Generic AgentCommand - Executes any agentic CLI tool with prompts from StringRefs
- * 
+ *
  * The agent configuration defines all tool-specific behavior including:
  * - How to build command-line arguments
+ * - Whether the prompt is passed as an argument, a file or on stdin
  * - What environment variables to set
- * - Tool-specific options and flags
- * 
+ * - How the response is extracted from the tool's output
+ *
+ * Configurations come from the per-tool builders, or from `.config.json` through
+ * the agent provider registry (`loadAgentConfigByName`).
+ *
  * Usage:
  *   const config = new GeminiConfigBuilder()
  *     .withModel('gemini-2.5-pro')
  *     .withTimeout(30000)
  *     .build();
- *   
+ *
  *   const result = await flow.run(
  *     new AgentCommand(config, [promptRef, codeRef])
  *   );
@@ -22,15 +32,18 @@ import { IAgentConfig, executeAgent } from './base.js';
 export class AgentCommand implements ICommand {
   private config: IAgentConfig;
   private promptRefs: StringRef[];
+  private promptFilePath?: string;
 
   /**
    * Create a new AgentCommand
    * @param config - Agent-specific configuration (GeminiConfig, ClaudeConfig, etc.)
    * @param promptRefs - Array of StringRefs whose values will be joined to form the prompt
+   * @param promptFilePath - Optional file containing the same prompt, for tools that can read one (avoids command-line length limits)
    */
-  constructor(config: IAgentConfig, promptRefs: StringRef[]) {
+  constructor(config: IAgentConfig, promptRefs: StringRef[], promptFilePath?: string) {
     this.config = config;
     this.promptRefs = promptRefs;
+    this.promptFilePath = promptFilePath;
   }
 
   async execute(
@@ -40,7 +53,7 @@ export class AgentCommand implements ICommand {
   ): Promise<[any, IRefDecorator[]][]> {
     // Retrieve and join all StringRef values to create the prompt
     const promptParts: string[] = [];
-    
+
     for (const ref of this.promptRefs) {
       const content = await context.get(ref);
       if (content === undefined) {
@@ -48,32 +61,115 @@ export class AgentCommand implements ICommand {
       }
       promptParts.push(content);
     }
-    
+
     const prompt = promptParts.join('\n\n');
 
-    // Let the config build the command (tool-specific)
-    const { command, args: cmdArgs } = this.config.buildCommand(prompt);
-    
-    // Get environment variables from config (tool-specific)
-    const env = this.config.getEnvironment();
-    
     // Get runtime options from context config
     const runtimeConfig = context.config || {};
     const verbose = runtimeConfig.verbosity === 'verbose';
     const dryRun = this.config.dryRun || runtimeConfig.dryRun || false;
-    
-    // Execute the CLI tool
-    const result = await executeAgent(
+
+    if (dryRun) {
+      const output = await runAgent(this.config, prompt, this.promptFilePath, {
+        cwd: this.config.workingDirectory || context.cwd,
+        dryRun,
+        verbose,
+      });
+      return [[output, []]];
+    }
+
+    // Stream output into a live progress area (verbose mode already echoes it raw) and
+    // into the result's file, so an interrupted run still leaves its partial output
+    const fileName = context.writePartial ? `${uuidv4()}.txt` : undefined;
+    const stream = new AgentOutputStream(this.config, {
+      progress: verbose ? undefined : context.outputSynk?.startProgress?.(`Agent running (${this.describe()})`),
+      flush: fileName ? text => context.writePartial!(fileName, text) : undefined,
+    });
+
+    let result: string;
+    try {
+      result = await runAgent(this.config, prompt, this.promptFilePath, {
+        cwd: this.config.workingDirectory || context.cwd,
+        dryRun,
+        verbose,
+        onOutput: chunk => stream.write(chunk),
+      });
+    } catch (error: any) {
+      await stream.end(false, `Agent failed (${this.describe()}): ${String(error.message).split('\n')[0]}`);
+      throw error;
+    }
+    await stream.end(true, `Agent finished (${this.describe()})`);
+
+    return [[result, fileName ? [new FileNameDecorator(fileName)] : []]];
+  }
+
+  /**
+   * Short description of the agent for progress lines
+   */
+  private describe(): string {
+    const name = (this.config as { name?: string }).name;
+    if (name) return name;
+    const constructorName = this.config.constructor.name;
+    return constructorName && constructorName !== 'Object'
+      ? constructorName.replace(/Config$/, '').toLowerCase()
+      : 'agent';
+  }
+}
+
+/**
+ * Run an agent on a prompt and return its response
+ * Used by AgentCommand, and by agents that delegate to another agent (e.g. mock record mode)
+ * @param config - Agent configuration
+ * @param prompt - The complete prompt text
+ * @param promptFilePath - Optional file holding the same prompt
+ * @param options - Working directory, dry-run and verbosity
+ */
+export async function runAgent(
+  config: IAgentConfig,
+  prompt: string,
+  promptFilePath: string | undefined,
+  options: AgentRunOptions
+): Promise<string> {
+  // Tools that only read prompts from files get a temporary one when none was given
+  let promptFile = promptFilePath;
+  let tempDir: string | undefined;
+  if (!promptFile && config.requiresPromptFile) {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ot-prompt-'));
+    promptFile = path.join(tempDir, 'prompt.md');
+    await fs.writeFile(promptFile, prompt, 'utf-8');
+  }
+
+  try {
+    // Agents that answer without a process produce the response themselves
+    if (config.invoke && !options.dryRun) {
+      return await config.invoke(prompt, promptFile, options);
+    }
+
+    // Let the config build the command (tool-specific)
+    const { command, args, stdin } = config.buildCommand(prompt, promptFile);
+
+    // Get environment variables from config (tool-specific)
+    const env = config.getEnvironment();
+
+    const output = await executeAgent(
       command,
-      cmdArgs,
-      this.config.workingDirectory || context.cwd,
+      args,
+      options.cwd,
       env,
-      this.config.timeout,
-      dryRun,
-      verbose
+      config.timeout,
+      options.dryRun,
+      options.verbose,
+      stdin,
+      config.showShell,
+      config.successExitCodes,
+      options.onOutput
     );
 
-    // Return the result
-    return [[result, []]];
+    // Let the config extract the response (dry-run output is returned as-is)
+    return !options.dryRun && config.parseOutput ? config.parseOutput(output) : output;
+  } finally {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
   }
 }
@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentProvider, stripAnsi } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -81,6 +81,13 @@ export class AiderConfig implements IAgentConfig {
   getEnvironment(): Record<string, string> {
     return {};
   }
+
+  /**
+   * Remove terminal colour codes from Aider's output
+   */
+  parseOutput(stdout: string): string {
+    return stripAnsi(stdout);
+  }
 }
 
 /**
@@ -127,3 +134,25 @@ export class AiderConfigBuilder extends BaseAgentConfigBuilder<AiderConfig> {
     return this;
   }
 }
+
+/** Aider-specific configuration options in .config.json */
+export interface AiderConfigOptions {
+  files?: string[];
+  noAutoCommits?: boolean;
+  model?: string;
+}
+
+/**
+ * Agent provider for Aider
+ */
+export const aiderProvider: AgentProvider = {
+  type: 'aider',
+  description: 'Aider AI pair programming (aider)',
+  create(options: AiderConfigOptions) {
+    const builder = new AiderConfigBuilder();
+    if (options.files) builder.withFiles(...options.files);
+    if (options.noAutoCommits) builder.withoutAutoCommit();
+    if (options.model) builder.withModel(options.model);
+    return builder.build();
+  },
+};
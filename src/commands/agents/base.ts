@@ -1,4 +1,18 @@
 import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import path from 'path';
+
+/**
+ * A prepared agent invocation: the program, its arguments and, optionally, text for stdin
+ */
+export interface AgentInvocation {
+  /** Program to run */
+  command: string;
+  /** Command-line arguments */
+  args: string[];
+  /** Text piped to the program's stdin (stdin is closed when absent) */
+  stdin?: string;
+}
 
 /**
  * Base interface for agent configurations
@@ -7,29 +21,162 @@ import { spawn } from 'child_process';
 export interface IAgentConfig {
   /** Working directory for the agent */
   workingDirectory?: string;
-  
+
   /** Timeout in milliseconds */
   timeout?: number;
-  
+
   /** Dry-run mode - echo command instead of executing it */
   dryRun?: boolean;
-  
+
+  /** Show the shell window while the agent runs (Windows; useful for debugging) */
+  showShell?: boolean;
+
+  /** Exit codes that count as success (default [0]) */
+  successExitCodes?: number[];
+
+  /** The tool reads the prompt from a file; AgentCommand writes a temporary one when no prompt file is given */
+  requiresPromptFile?: boolean;
+
   /**
    * Build the command-line arguments for this agent
    * @param prompt - The complete prompt text to execute
-   * @returns The command name and arguments array
+   * @param promptFile - Optional file holding the same prompt; tools that can read a
+   *   file (or stdin) use it to avoid command-line length limits
+   * @returns The command name, arguments and optional stdin text
    */
-  buildCommand(prompt: string): { command: string; args: string[] };
-  
+  buildCommand(prompt: string, promptFile?: string): AgentInvocation;
+
   /**
    * Get environment variables needed for this agent
    * @returns Environment variables to set
    */
   getEnvironment(): Record<string, string>;
+
+  /**
+   * Extract the agent's response from the tool's stdout (default: stdout unchanged)
+   */
+  parseOutput?(stdout: string): string;
+
+  /**
+   * Turn one line of streamed stdout into display text, for tools that stream
+   * JSON lines (default: the line unchanged). Return undefined to skip the line.
+   */
+  parseStreamLine?(line: string): string | undefined;
+
+  /**
+   * Produce the response without spawning `buildCommand` (e.g. the mock agent)
+   * Not called in dry-run mode, where the built command is echoed as usual
+   */
+  invoke?(prompt: string, promptFile: string | undefined, options: AgentRunOptions): Promise<string>;
+}
+
+/**
+ * Runtime options for running an agent
+ */
+export interface AgentRunOptions {
+  /** Working directory */
+  cwd: string;
+  /** Echo the command instead of executing it */
+  dryRun: boolean;
+  /** Stream output to the console */
+  verbose: boolean;
+  /** Receives stdout as it arrives */
+  onOutput?: (chunk: string) => void;
+}
+
+/**
+ * Agent configuration stored in .config.json
+ */
+export interface AgentConfigDefinition {
+  /** Name/identifier for this agent configuration */
+  name: string;
+
+  /** Type of agent: the name of a registered agent provider */
+  type: string;
+
+  /** Working directory */
+  workingDirectory?: string;
+
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Tool-specific configuration */
+  config?: Record<string, any>;
+}
+
+/**
+ * An agent provider turns a .config.json agent definition into a configured IAgentConfig
+ * Providers are registered by tool name in the agent registry
+ */
+export interface AgentProvider {
+  /** Tool name used as `type` in .config.json */
+  type: string;
+  /** Short description shown when listing providers */
+  description: string;
+  /**
+   * Create the agent configuration for a definition
+   * `workingDirectory`, `timeout` and `config.showShell` are applied by the registry
+   * @param options - The definition's tool-specific `config` block
+   * @param definition - The whole definition (for its name in error messages)
+   */
+  create(options: Record<string, any>, definition: AgentConfigDefinition): IAgentConfig;
+}
+
+/** Matches ANSI colour and cursor escape sequences */
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -\/]*[@-~]/g;
+
+/**
+ * Remove ANSI escape sequences from terminal output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/** Characters cmd.exe interprets, escaped with ^ */
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * On Windows, agent CLIs installed by npm are `.cmd` shims, which only cmd.exe can start.
+ * Find the command on PATH and, for a shim, run cmd.exe with every argument quoted and
+ * escaped so it reaches the tool unchanged (as cross-spawn does); cmd.exe cannot pass
+ * line breaks, so multi-line prompts need stdin or a prompt file there. Elsewhere the
+ * command is returned as-is.
+ */
+function resolveWindowsShim(
+  command: string,
+  args: string[],
+  env: NodeJS.ProcessEnv
+): { command: string; args: string[]; verbatim?: boolean } {
+  if (process.platform !== 'win32') {
+    return { command, args };
+  }
+
+  const extensions = (env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';');
+  const directories = path.dirname(command) !== '.' ? [''] : (env.PATH || env.Path || '').split(';');
+  const candidates = directories.flatMap(dir =>
+    [path.extname(command) ? command : undefined, ...extensions.map(ext => command + ext)]
+      .filter((name): name is string => name !== undefined)
+      .map(name => path.join(dir, name))
+  );
+  const resolved = candidates.find(file => existsSync(file));
+  if (!resolved || !/\.(cmd|bat)$/i.test(resolved)) {
+    return { command: resolved ?? command, args };
+  }
+
+  // Shims in node_modules/.bin pass the arguments through cmd.exe a second time
+  const doubleEscape = /node_modules[\\/]\.bin[\\/][^\\/]+\.cmd$/i.test(resolved);
+  const escapeArg = (arg: string): string => {
+    let quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+    quoted = quoted.replace(CMD_META_CHARS, '^$1');
+    return doubleEscape ? quoted.replace(CMD_META_CHARS, '^$1') : quoted;
+  };
+  const line = [resolved.replace(CMD_META_CHARS, '^$1'), ...args.map(escapeArg)].join(' ');
+  return { command: env.ComSpec || 'cmd.exe', args: ['/d', '/s', '/c', `"${line}"`], verbatim: true };
 }
 
 /**
  * Execute an agent CLI tool
+ * The program is started without a shell, so every argument reaches it unchanged.
  * @param command - Command to run
  * @param args - Command arguments
  * @param cwd - Working directory
@@ -37,6 +184,10 @@ export interface IAgentConfig {
  * @param timeout - Timeout in milliseconds
  * @param dryRun - If true, echo command instead of executing
  * @param verbose - If true, stream output to console
+ * @param stdin - Text piped to the program's stdin (stdin is closed when absent)
+ * @param showShell - Show the shell window (Windows)
+ * @param successExitCodes - Exit codes that count as success (default [0])
+ * @param onOutput - Receives stdout chunks as they arrive
  */
 export function executeAgent(
   command: string,
@@ -45,7 +196,11 @@ export function executeAgent(
   env: Record<string, string>,
   timeout?: number,
   dryRun?: boolean,
-  verbose?: boolean
+  verbose?: boolean,
+  stdin?: string,
+  showShell?: boolean,
+  successExitCodes: number[] = [0],
+  onOutput?: (chunk: string) => void
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     // Build the full command string for dry-run display
@@ -57,39 +212,62 @@ export function executeAgent(
       return arg;
     });
     const fullCommand = `${command} ${escapedArgs.join(' ')}`;
-    
+
     // In dry-run mode, echo the command instead of executing
     if (dryRun) {
-      const dryRunOutput = `[DRY-RUN] Would execute:\ncd ${cwd}\n${fullCommand}`;
+      let dryRunOutput = `[DRY-RUN] Would execute:\ncd ${cwd}\n${fullCommand}`;
+      if (stdin !== undefined) {
+        dryRunOutput += `\n[stdin]\n${stdin}`;
+      }
       if (verbose) {
         console.log(dryRunOutput);
       }
       resolve(dryRunOutput);
       return;
     }
-    
+
     const processEnv = { ...process.env, ...env };
-    
-    const child = spawn(command, args, {
+
+    if (verbose) {
+      console.log(`\n[Agent Command] ${fullCommand}\n`);
+      if (stdin !== undefined) {
+        console.log(`[Agent] Prompt piped to stdin (${(stdin.length / 1024).toFixed(2)} KB)`);
+      }
+    }
+
+    // No shell: prompts in argv hold file contents and must never be parsed as shell syntax.
+    // Tools that are not given stdin get none, so they cannot block waiting for input
+    const invocation = resolveWindowsShim(command, args, processEnv);
+    const child = spawn(invocation.command, invocation.args, {
       cwd,
       env: processEnv,
-      shell: true,
+      windowsVerbatimArguments: invocation.verbatim,
+      stdio: [stdin !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+      windowsHide: !showShell,
     });
 
+    if (stdin !== undefined && child.stdin) {
+      child.stdin.write(stdin);
+      child.stdin.end();
+    }
+
     let stdout = '';
     let stderr = '';
 
-    child.stdout?.on('data', (data) => {
-      const text = data.toString();
+    // Decode as a stream so multi-byte characters split across chunks stay intact
+    child.stdout?.setEncoding('utf8');
+    child.stderr?.setEncoding('utf8');
+
+    child.stdout?.on('data', (text: string) => {
       stdout += text;
+      onOutput?.(text);
       // Stream to console in verbose mode
       if (verbose) {
         process.stdout.write(text);
       }
     });
 
-    child.stderr?.on('data', (data) => {
-      const text = data.toString();
+    child.stderr?.on('data', (text: string) => {
       stderr += text;
       // Stream to console in verbose mode
       if (verbose) {
@@ -107,7 +285,7 @@ export function executeAgent(
 
     child.on('close', (code) => {
       if (timeoutId) clearTimeout(timeoutId);
-      if (code === 0) {
+      if (code !== null && successExitCodes.includes(code)) {
         resolve(stdout);
       } else {
         reject(new Error(`Agent failed with code ${code}:\n${stderr || stdout}`));
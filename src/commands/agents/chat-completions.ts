@@ -0,0 +1,236 @@
+import { IAgentConfig, AgentProvider, AgentInvocation, AgentRunOptions } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+import { FetchFunction } from '../http.js';
+
+/**
+ * Configuration for a model server speaking the OpenAI-compatible chat completions protocol
+ * (OpenAI, Ollama, llama.cpp server, vLLM, LM Studio). The prompt is sent over HTTP;
+ * no CLI is installed or spawned.
+ */
+export class ChatCompletionsConfig implements IAgentConfig {
+  /** Agent name, used in error messages */
+  name = 'openai-compatible';
+
+  /** API base URL, e.g. http://localhost:11434/v1 */
+  baseUrl = '';
+
+  /** Model to use */
+  model = '';
+
+  /** API key sent as a bearer token */
+  apiKey?: string;
+
+  /** System prompt sent before the user prompt */
+  systemPrompt?: string;
+
+  /** Sampling temperature */
+  temperature?: number;
+
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+
+  /** Ask for a JSON object response */
+  jsonMode?: boolean;
+
+  /** Extra request headers */
+  headers: Record<string, string> = {};
+
+  /** fetch implementation (default globalThis.fetch) */
+  fetch?: FetchFunction;
+
+  /** Working directory for the agent */
+  workingDirectory?: string;
+
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo the request instead of sending it */
+  dryRun?: boolean;
+
+  /** The chat completions endpoint */
+  get url(): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  /**
+   * Build the request body
+   */
+  buildRequest(prompt: string): Record<string, any> {
+    const messages = [];
+    if (this.systemPrompt) {
+      messages.push({ role: 'system', content: this.systemPrompt });
+    }
+    messages.push({ role: 'user', content: prompt });
+
+    const body: Record<string, any> = { model: this.model, messages };
+    if (this.temperature !== undefined) body.temperature = this.temperature;
+    if (this.maxTokens !== undefined) body.max_tokens = this.maxTokens;
+    if (this.jsonMode) body.response_format = { type: 'json_object' };
+    return body;
+  }
+
+  /**
+   * Describe the request for dry-run output; the API key is not shown
+   */
+  buildCommand(prompt: string): AgentInvocation {
+    return { command: 'POST', args: [this.url], stdin: JSON.stringify(this.buildRequest(prompt), null, 2) };
+  }
+
+  /**
+   * No environment is needed; nothing is spawned
+   */
+  getEnvironment(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Send the prompt and return the first choice's message content
+   */
+  async invoke(prompt: string, _promptFile: string | undefined, options: AgentRunOptions): Promise<string> {
+    const fetchFunction: FetchFunction = this.fetch ?? ((input, init) => fetch(input, init));
+    const headers: Record<string, string> = { 'content-type': 'application/json', ...this.headers };
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    if (options.verbose) {
+      console.log(`\n[Agent Request] POST ${this.url} (${this.model})\n`);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = this.timeout ? setTimeout(() => controller.abort(), this.timeout) : undefined;
+
+    let status: number;
+    let text: string;
+    try {
+      const response = await fetchFunction(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(this.buildRequest(prompt)),
+        signal: controller.signal,
+      });
+      status = response.status;
+      text = await response.text();
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        throw new Error(`Agent execution timed out after ${this.timeout}ms`);
+      }
+      throw new Error(`Failed to reach agent '${this.name}' at ${this.url}: ${error.message}`);
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Agent request failed with status ${status}:\n${text}`);
+    }
+
+    let content: unknown;
+    try {
+      content = JSON.parse(text).choices?.[0]?.message?.content;
+    } catch {
+      throw new Error(`Agent '${this.name}' returned invalid JSON: ${text.slice(0, 200)}`);
+    }
+    if (typeof content !== 'string') {
+      throw new Error(`Agent '${this.name}' returned no message content: ${text.slice(0, 200)}`);
+    }
+
+    if (options.verbose) {
+      console.log(content);
+    }
+    return content;
+  }
+}
+
+/**
+ * Builder for chat completions configuration
+ */
+export class ChatCompletionsConfigBuilder extends BaseAgentConfigBuilder<ChatCompletionsConfig> {
+  constructor(baseUrl: string, model: string) {
+    super(new ChatCompletionsConfig());
+    this.config.baseUrl = baseUrl;
+    this.config.model = model;
+  }
+
+  named(name: string): this {
+    this.config.name = name;
+    return this;
+  }
+
+  withApiKey(apiKey: string): this {
+    this.config.apiKey = apiKey;
+    return this;
+  }
+
+  withSystemPrompt(systemPrompt: string): this {
+    this.config.systemPrompt = systemPrompt;
+    return this;
+  }
+
+  withTemperature(temperature: number): this {
+    this.config.temperature = temperature;
+    return this;
+  }
+
+  withMaxTokens(maxTokens: number): this {
+    this.config.maxTokens = maxTokens;
+    return this;
+  }
+
+  withJsonMode(): this {
+    this.config.jsonMode = true;
+    return this;
+  }
+
+  withHeaders(headers: Record<string, string>): this {
+    this.config.headers = { ...this.config.headers, ...headers };
+    return this;
+  }
+
+  withFetch(fetchFunction: FetchFunction): this {
+    this.config.fetch = fetchFunction;
+    return this;
+  }
+}
+
+/** Chat completions configuration options in .config.json */
+export interface ChatCompletionsConfigOptions {
+  /** API base URL (required), e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Model to use (required) */
+  model: string;
+  apiKey?: string;
+  /** Environment variable holding the API key, read when `apiKey` is not set */
+  apiKeyEnv?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Agent provider for OpenAI-compatible chat completions servers
+ */
+export const chatCompletionsProvider: AgentProvider = {
+  type: 'openai-compatible',
+  description: 'OpenAI-compatible chat completions over HTTP (Ollama, llama.cpp, vLLM, LM Studio)',
+  create(options: ChatCompletionsConfigOptions, definition) {
+    const where = `Agent '${definition.name}'`;
+    if (typeof options.baseUrl !== 'string' || !options.baseUrl) {
+      throw new Error(`${where} requires config.baseUrl`);
+    }
+    if (typeof options.model !== 'string' || !options.model) {
+      throw new Error(`${where} requires config.model`);
+    }
+
+    const builder = new ChatCompletionsConfigBuilder(options.baseUrl, options.model).named(definition.name);
+    const apiKey = options.apiKey ?? (options.apiKeyEnv ? process.env[options.apiKeyEnv] : undefined);
+    if (apiKey) builder.withApiKey(apiKey);
+    if (options.systemPrompt) builder.withSystemPrompt(options.systemPrompt);
+    if (options.temperature !== undefined) builder.withTemperature(options.temperature);
+    if (options.maxTokens !== undefined) builder.withMaxTokens(options.maxTokens);
+    if (options.jsonMode) builder.withJsonMode();
+    if (options.headers) builder.withHeaders(options.headers);
+    return builder.build();
+  },
+};
@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentInvocation, AgentProvider } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -48,17 +48,22 @@ export class ClaudeConfig implements IAgentConfig {
   /** Enable extended thinking mode */
   extendedThinking?: boolean;
 
+  /** Stream JSON events (`--output-format stream-json`) so progress can show text and tool use as it happens */
+  streamJson?: boolean;
+
   /** Dry-run mode - echo command instead of executing it */
   dryRun?: boolean;
 
   /**
    * Build command-line arguments for Claude Code CLI
+   * With a prompt file the prompt is piped to stdin, which `claude -p` reads,
+   * so long prompts avoid command-line length limits
    */
-  buildCommand(prompt: string): { command: string; args: string[] } {
-    const args: string[] = ['-p', prompt];
+  buildCommand(prompt: string, promptFile?: string): AgentInvocation {
+    const args: string[] = promptFile ? ['-p'] : ['-p', prompt];
     
     if (this.allowAllTools) {
-      args.push('--allow-all-tools');
+      args.push('--dangerously-skip-permissions');
     }
     
     if (this.model) {
@@ -77,7 +82,12 @@ export class ClaudeConfig implements IAgentConfig {
       args.push('--thinking');
     }
 
-    return { command: 'claude', args };
+    if (this.streamJson) {
+      // stream-json requires --verbose in print mode
+      args.push('--output-format', 'stream-json', '--verbose');
+    }
+
+    return promptFile ? { command: 'claude', args, stdin: prompt } : { command: 'claude', args };
   }
 
   /**
@@ -90,6 +100,54 @@ export class ClaudeConfig implements IAgentConfig {
     }
     return env;
   }
+
+  /**
+   * Show assistant text and tool use from stream-json events
+   */
+  parseStreamLine(line: string): string | undefined {
+    if (!this.streamJson) {
+      return line;
+    }
+    const event = parseJsonLine(line);
+    if (!event) {
+      return line.trim() ? line : undefined;
+    }
+    if (event.type !== 'assistant' || !Array.isArray(event.message?.content)) {
+      return undefined;
+    }
+    const parts = event.message.content
+      .map((block: any) => block.type === 'text' ? block.text : block.type === 'tool_use' ? `[tool: ${block.name}]` : undefined)
+      .filter((part: string | undefined) => part);
+    return parts.length > 0 ? parts.join('\n') : undefined;
+  }
+
+  /**
+   * With stream-json, the response is the final `result` event
+   */
+  parseOutput(stdout: string): string {
+    if (!this.streamJson) {
+      return stdout;
+    }
+    const lines = stdout.split('\n');
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const event = parseJsonLine(lines[i]);
+      if (event?.type === 'result' && typeof event.result === 'string') {
+        return event.result;
+      }
+    }
+    return stdout;
+  }
+}
+
+/**
+ * Parse one JSON event line, or undefined if the line is not JSON
+ */
+function parseJsonLine(line: string): any {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -129,4 +187,35 @@ export class ClaudeConfigBuilder extends BaseAgentConfigBuilder<ClaudeConfig> {
     this.config.extendedThinking = true;
     return this;
   }
+
+  withStreamJson(): this {
+    this.config.streamJson = true;
+    return this;
+  }
 }
+
+/** Claude-specific configuration options in .config.json */
+export interface ClaudeConfigOptions {
+  model?: string;
+  allowAllTools?: boolean;
+  enableThinking?: boolean;
+  apiKey?: string;
+  streamJson?: boolean;
+}
+
+/**
+ * Agent provider for Claude Code CLI
+ */
+export const claudeProvider: AgentProvider = {
+  type: 'claude',
+  description: 'Anthropic Claude Code CLI (claude)',
+  create(options: ClaudeConfigOptions) {
+    const builder = new ClaudeConfigBuilder();
+    if (options.model) builder.withModel(options.model as ClaudeModel);
+    if (options.allowAllTools) builder.allowingAllTools();
+    if (options.enableThinking) builder.withExtendedThinking();
+    if (options.apiKey) builder.withApiKey(options.apiKey);
+    if (options.streamJson) builder.withStreamJson();
+    return builder.build();
+  },
+};
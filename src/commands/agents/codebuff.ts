@@ -0,0 +1,79 @@
+import { IAgentConfig, AgentProvider, stripAnsi } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+
+/**
+ * Configuration for Codebuff CLI
+ * Implements IAgentConfig to define how Codebuff commands are built and executed
+ */
+export class CodebuffConfig implements IAgentConfig {
+  /** Model to use */
+  model?: string;
+  
+  /** Working directory for the agent */
+  workingDirectory?: string;
+  
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo command instead of executing it */
+  dryRun?: boolean;
+
+  /**
+   * Build command-line arguments for Codebuff CLI
+   */
+  buildCommand(prompt: string): { command: string; args: string[] } {
+    const args: string[] = [prompt];
+    
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+
+    return { command: 'codebuff', args };
+  }
+
+  /**
+   * Get environment variables for Codebuff
+   */
+  getEnvironment(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Remove terminal colour codes from Codebuff's output
+   */
+  parseOutput(stdout: string): string {
+    return stripAnsi(stdout);
+  }
+}
+
+/**
+ * Builder for Codebuff configuration
+ */
+export class CodebuffConfigBuilder extends BaseAgentConfigBuilder<CodebuffConfig> {
+  constructor() {
+    super(new CodebuffConfig());
+  }
+
+  withModel(model: string): this {
+    this.config.model = model;
+    return this;
+  }
+}
+
+/** Codebuff-specific configuration options in .config.json */
+export interface CodebuffConfigOptions {
+  model?: string;
+}
+
+/**
+ * Agent provider for Codebuff
+ */
+export const codebuffProvider: AgentProvider = {
+  type: 'codebuff',
+  description: 'Codebuff CLI (codebuff)',
+  create(options: CodebuffConfigOptions) {
+    const builder = new CodebuffConfigBuilder();
+    if (options.model) builder.withModel(options.model);
+    return builder.build();
+  },
+};
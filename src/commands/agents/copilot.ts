@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentProvider } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -77,3 +77,23 @@ export class CopilotConfigBuilder extends BaseAgentConfigBuilder<CopilotConfig>
     return this;
   }
 }
+
+/** Copilot-specific configuration options in .config.json */
+export interface CopilotConfigOptions {
+  model?: string;
+  allowAllTools?: boolean;
+}
+
+/**
+ * Agent provider for GitHub Copilot CLI
+ */
+export const copilotProvider: AgentProvider = {
+  type: 'copilot',
+  description: 'GitHub Copilot CLI (copilot)',
+  create(options: CopilotConfigOptions) {
+    const builder = new CopilotConfigBuilder();
+    if (options.model) builder.withModel(options.model as CopilotModel);
+    if (options.allowAllTools) builder.allowingAllTools();
+    return builder.build();
+  },
+};
@@ -0,0 +1,86 @@
+import { IAgentConfig, AgentProvider } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+
+/**
+ * Configuration for Crush CLI (successor to OpenCode)
+ * Implements IAgentConfig to define how Crush commands are built and executed
+ */
+export class CrushConfig implements IAgentConfig {
+  /** Model to use */
+  model?: string;
+  
+  /** Model provider (e.g. openai, anthropic, ollama) */
+  provider?: string;
+  
+  /** Working directory for the agent */
+  workingDirectory?: string;
+  
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo command instead of executing it */
+  dryRun?: boolean;
+
+  /**
+   * Build command-line arguments for Crush CLI
+   */
+  buildCommand(prompt: string): { command: string; args: string[] } {
+    const args: string[] = ['-p', prompt];
+    
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+    
+    if (this.provider) {
+      args.push('--provider', this.provider);
+    }
+
+    return { command: 'crush', args };
+  }
+
+  /**
+   * Get environment variables for Crush
+   */
+  getEnvironment(): Record<string, string> {
+    return {};
+  }
+}
+
+/**
+ * Builder for Crush configuration
+ */
+export class CrushConfigBuilder extends BaseAgentConfigBuilder<CrushConfig> {
+  constructor() {
+    super(new CrushConfig());
+  }
+
+  withModel(model: string): this {
+    this.config.model = model;
+    return this;
+  }
+
+  withProvider(provider: string): this {
+    this.config.provider = provider;
+    return this;
+  }
+}
+
+/** Crush-specific configuration options in .config.json */
+export interface CrushConfigOptions {
+  model?: string;
+  provider?: string;
+}
+
+/**
+ * Agent provider for Crush
+ */
+export const crushProvider: AgentProvider = {
+  type: 'crush',
+  description: 'Crush, successor to OpenCode (crush)',
+  create(options: CrushConfigOptions) {
+    const builder = new CrushConfigBuilder();
+    if (options.model) builder.withModel(options.model);
+    if (options.provider) builder.withProvider(options.provider);
+    return builder.build();
+  },
+};
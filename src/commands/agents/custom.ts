@@ -0,0 +1,211 @@
+import { IAgentConfig, AgentProvider, AgentInvocation } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+
+/** How the prompt reaches a custom agent */
+export type PromptDelivery = 'argv' | 'stdin' | 'file';
+
+const PROMPT_DELIVERIES: PromptDelivery[] = ['argv', 'stdin', 'file'];
+
+/** Placeholders allowed in a custom agent's argument template */
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const PLACEHOLDERS = ['prompt', 'promptFile', 'model'];
+
+/**
+ * Configuration for an agent CLI described entirely in .config.json
+ * The executable, argument template and prompt delivery are data, so in-house tools
+ * (e.g. `ollama run`, `opencode`) need no TypeScript
+ */
+export class CustomAgentConfig implements IAgentConfig {
+  /** Agent name, used in error messages */
+  name = 'custom';
+
+  /** Program to run */
+  command = '';
+
+  /** Argument template; `{{prompt}}`, `{{promptFile}}` and `{{model}}` are substituted */
+  args: string[] = [];
+
+  /** Value for `{{model}}` */
+  model?: string;
+
+  /** How the prompt is delivered (default: inferred from the argument template) */
+  promptDelivery?: PromptDelivery;
+
+  /** Extra environment variables */
+  env: Record<string, string> = {};
+
+  /** Exit codes that count as success (default [0]) */
+  successExitCodes?: number[];
+
+  /** Working directory for the agent */
+  workingDirectory?: string;
+
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo command instead of executing it */
+  dryRun?: boolean;
+
+  /**
+   * The effective delivery: `{{prompt}}` in the template means argv,
+   * `{{promptFile}}` means file, otherwise the prompt goes to stdin
+   */
+  get delivery(): PromptDelivery {
+    if (this.promptDelivery) return this.promptDelivery;
+    if (this.usesPlaceholder('prompt')) return 'argv';
+    if (this.usesPlaceholder('promptFile')) return 'file';
+    return 'stdin';
+  }
+
+  /** File delivery, or a `{{promptFile}}` placeholder, needs the prompt on disk */
+  get requiresPromptFile(): boolean {
+    return this.delivery === 'file' || this.usesPlaceholder('promptFile');
+  }
+
+  /**
+   * Build the command line from the argument template
+   * A prompt (or prompt file) with no placeholder for it is appended as the last argument
+   */
+  buildCommand(prompt: string, promptFile?: string): AgentInvocation {
+    const delivery = this.delivery;
+    if (this.requiresPromptFile && !promptFile) {
+      throw new Error(`Custom agent '${this.name}' needs a prompt file`);
+    }
+
+    const values: Record<string, string | undefined> = { prompt, promptFile, model: this.model };
+    const args = this.args.map(arg =>
+      arg.replace(PLACEHOLDER_PATTERN, (_match, key: string) => {
+        const value = values[key];
+        if (value === undefined) {
+          throw new Error(`Custom agent '${this.name}' uses {{${key}}} but no ${key} is configured`);
+        }
+        return value;
+      })
+    );
+
+    if (delivery === 'argv' && !this.usesPlaceholder('prompt')) {
+      args.push(prompt);
+    }
+    if (delivery === 'file' && !this.usesPlaceholder('promptFile')) {
+      args.push(promptFile!);
+    }
+
+    return delivery === 'stdin'
+      ? { command: this.command, args, stdin: prompt }
+      : { command: this.command, args };
+  }
+
+  /**
+   * Get the configured environment variables
+   */
+  getEnvironment(): Record<string, string> {
+    return { ...this.env };
+  }
+
+  private usesPlaceholder(name: string): boolean {
+    return this.args.some(arg =>
+      Array.from(arg.matchAll(PLACEHOLDER_PATTERN)).some(match => match[1] === name)
+    );
+  }
+}
+
+/**
+ * Builder for custom agent configuration
+ */
+export class CustomAgentConfigBuilder extends BaseAgentConfigBuilder<CustomAgentConfig> {
+  constructor(command: string) {
+    super(new CustomAgentConfig());
+    this.config.command = command;
+  }
+
+  named(name: string): this {
+    this.config.name = name;
+    return this;
+  }
+
+  withArgs(args: string[]): this {
+    this.config.args = [...args];
+    return this;
+  }
+
+  withModel(model: string): this {
+    this.config.model = model;
+    return this;
+  }
+
+  withPromptDelivery(delivery: PromptDelivery): this {
+    this.config.promptDelivery = delivery;
+    return this;
+  }
+
+  withEnvironment(env: Record<string, string>): this {
+    this.config.env = { ...this.config.env, ...env };
+    return this;
+  }
+
+  withSuccessExitCodes(codes: number[]): this {
+    this.config.successExitCodes = [...codes];
+    return this;
+  }
+}
+
+/** Custom agent configuration options in .config.json */
+export interface CustomAgentConfigOptions {
+  /** Program to run (required) */
+  command: string;
+  /** Argument template with `{{prompt}}`, `{{promptFile}}` and `{{model}}` placeholders */
+  args?: string[];
+  model?: string;
+  promptDelivery?: PromptDelivery;
+  env?: Record<string, string>;
+  successExitCodes?: number[];
+}
+
+/**
+ * Agent provider for CLIs described in .config.json (`type: "custom"`)
+ */
+export const customProvider: AgentProvider = {
+  type: 'custom',
+  description: 'Any agent CLI described by command, argument template and prompt delivery',
+  create(options: CustomAgentConfigOptions, definition) {
+    const where = `Custom agent '${definition.name}'`;
+
+    if (typeof options.command !== 'string' || !options.command.trim()) {
+      throw new Error(`${where} requires config.command`);
+    }
+    if (options.args !== undefined &&
+        (!Array.isArray(options.args) || options.args.some(arg => typeof arg !== 'string'))) {
+      throw new Error(`${where}: config.args must be an array of strings`);
+    }
+    if (options.promptDelivery !== undefined && !PROMPT_DELIVERIES.includes(options.promptDelivery)) {
+      throw new Error(
+        `${where}: invalid promptDelivery "${options.promptDelivery}" (expected ${PROMPT_DELIVERIES.join(', ')})`
+      );
+    }
+    if (options.successExitCodes !== undefined &&
+        (!Array.isArray(options.successExitCodes) || !options.successExitCodes.every(Number.isInteger))) {
+      throw new Error(`${where}: config.successExitCodes must be an array of integers`);
+    }
+
+    for (const arg of options.args || []) {
+      for (const match of arg.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!PLACEHOLDERS.includes(match[1])) {
+          throw new Error(
+            `${where}: unknown placeholder {{${match[1]}}} (expected ${PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')})`
+          );
+        }
+        if (match[1] === 'model' && !options.model) {
+          throw new Error(`${where} uses {{model}} but config.model is not set`);
+        }
+      }
+    }
+
+    const builder = new CustomAgentConfigBuilder(options.command).named(definition.name);
+    if (options.args) builder.withArgs(options.args);
+    if (options.model) builder.withModel(options.model);
+    if (options.promptDelivery) builder.withPromptDelivery(options.promptDelivery);
+    if (options.env) builder.withEnvironment(options.env);
+    if (options.successExitCodes) builder.withSuccessExitCodes(options.successExitCodes);
+    return builder.build();
+  },
+};
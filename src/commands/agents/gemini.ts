@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentProvider } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -48,9 +48,10 @@ export class GeminiConfig implements IAgentConfig {
 
   /**
    * Build command-line arguments for Gemini CLI
+   * With a prompt file the prompt is passed as `@<file>`, which Gemini expands
    */
-  buildCommand(prompt: string): { command: string; args: string[] } {
-    const args: string[] = ['-p', prompt];
+  buildCommand(prompt: string, promptFile?: string): { command: string; args: string[] } {
+    const args: string[] = ['-p', promptFile ? `@${promptFile}` : prompt];
     
     if (this.model) {
       args.push('--model', this.model);
@@ -125,3 +126,27 @@ export class GeminiConfigBuilder extends BaseAgentConfigBuilder<GeminiConfig> {
     return this;
   }
 }
+
+/** Gemini-specific configuration options in .config.json */
+export interface GeminiConfigOptions {
+  model?: string;
+  contextFiles?: string[];
+  enableSearch?: boolean;
+  apiKey?: string;
+}
+
+/**
+ * Agent provider for Gemini CLI
+ */
+export const geminiProvider: AgentProvider = {
+  type: 'gemini',
+  description: 'Google Gemini CLI (gemini)',
+  create(options: GeminiConfigOptions) {
+    const builder = new GeminiConfigBuilder();
+    if (options.model) builder.withModel(options.model as GeminiModel);
+    if (options.contextFiles) builder.withContextFiles(...options.contextFiles);
+    if (options.enableSearch) builder.enableSearch();
+    if (options.apiKey) builder.withApiKey(options.apiKey);
+    return builder.build();
+  },
+};
@@ -1,27 +1,50 @@
 // Base interfaces
-export { IAgentConfig, executeAgent } from './base.js';
+export { IAgentConfig, AgentInvocation, AgentRunOptions, AgentProvider, AgentConfigDefinition, executeAgent, stripAnsi } from './base.js';
 
 // Generic agent command
-export { AgentCommand } from './agent.js';
+export { AgentCommand, runAgent } from './agent.js';
+export { AgentOutputStream, type AgentOutputStreamOptions } from './stream.js';
 
-// Agent configurations and builders
-export { GeminiConfig, GeminiConfigBuilder, type GeminiModel } from './gemini.js';
-export { ClaudeConfig, ClaudeConfigBuilder, type ClaudeModel } from './claude.js';
-export { CopilotConfig, CopilotConfigBuilder, type CopilotModel } from './copilot.js';
-export { AiderConfig, AiderConfigBuilder } from './aider.js';
-export { QwenConfig, QwenConfigBuilder } from './qwen.js';
-export { LlmConfig, LlmConfigBuilder } from './llm.js';
+// Agent provider registry
+export { registerAgentProvider, getAgentProvider, listAgentProviders, createAgentConfig } from './registry.js';
+
+// Agent configurations, builders and providers
+export { GeminiConfig, GeminiConfigBuilder, geminiProvider, type GeminiModel } from './gemini.js';
+export { ClaudeConfig, ClaudeConfigBuilder, claudeProvider, type ClaudeModel } from './claude.js';
+export { CopilotConfig, CopilotConfigBuilder, copilotProvider, type CopilotModel } from './copilot.js';
+export { AiderConfig, AiderConfigBuilder, aiderProvider } from './aider.js';
+export { QwenConfig, QwenConfigBuilder, qwenProvider } from './qwen.js';
+export { LlmConfig, LlmConfigBuilder, llmProvider } from './llm.js';
+export { CodebuffConfig, CodebuffConfigBuilder, codebuffProvider } from './codebuff.js';
+export { CrushConfig, CrushConfigBuilder, crushProvider } from './crush.js';
+export { OpenAiConfig, OpenAiConfigBuilder, openaiProvider } from './openai.js';
+export { CustomAgentConfig, CustomAgentConfigBuilder, customProvider, type PromptDelivery } from './custom.js';
+export {
+  MockAgentConfig,
+  MockAgentConfigBuilder,
+  mockProvider,
+  mockPromptHash,
+  DEFAULT_MOCK_FIXTURES_DIR,
+  type MockFixture,
+  type MockRule
+} from './mock.js';
+export { ChatCompletionsConfig, ChatCompletionsConfigBuilder, chatCompletionsProvider } from './chat-completions.js';
 
 // Configuration loader
 export { 
   loadAgentConfig, 
   loadAgentConfigByName, 
   getAvailableAgentConfigs,
-  type AgentConfigDefinition,
   type GeminiConfigOptions,
   type ClaudeConfigOptions,
   type CopilotConfigOptions,
   type AiderConfigOptions,
   type QwenConfigOptions,
-  type LlmConfigOptions
+  type LlmConfigOptions,
+  type CodebuffConfigOptions,
+  type CrushConfigOptions,
+  type OpenAiConfigOptions,
+  type CustomAgentConfigOptions,
+  type MockAgentConfigOptions,
+  type ChatCompletionsConfigOptions
 } from './config-loader.js';
@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentProvider } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -88,3 +88,25 @@ export class LlmConfigBuilder extends BaseAgentConfigBuilder<LlmConfig> {
     return this;
   }
 }
+
+/** llm-specific configuration options in .config.json */
+export interface LlmConfigOptions {
+  model?: string;
+  temperature?: number;
+  system?: string;
+}
+
+/**
+ * Agent provider for llm
+ */
+export const llmProvider: AgentProvider = {
+  type: 'llm',
+  description: "Simon Willison's llm (llm)",
+  create(options: LlmConfigOptions) {
+    const builder = new LlmConfigBuilder();
+    if (options.model) builder.withModel(options.model);
+    if (options.temperature !== undefined) builder.withTemperature(options.temperature);
+    if (options.system) builder.withSystem(options.system);
+    return builder.build();
+  },
+};
@@ -0,0 +1,291 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { IAgentConfig, AgentProvider, AgentInvocation, AgentRunOptions, AgentConfigDefinition } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+import { runAgent } from './agent.js';
+
+/** Default fixtures directory, relative to the working directory */
+export const DEFAULT_MOCK_FIXTURES_DIR = '.open-tasks/fixtures/agents';
+
+/**
+ * A recorded or hand-written response, stored as `<fixturesDir>/<hash>.json`
+ */
+export interface MockFixture {
+  /** The prompt the response belongs to (informational; lookup is by hash) */
+  prompt?: string;
+  /** Response text */
+  response?: string;
+  /** File under the fixtures directory holding the response */
+  responseFile?: string;
+  /** Scripted failure: the agent fails with this message instead of responding */
+  error?: string;
+  /** Exit code reported with `error` (default 1) */
+  exitCode?: number;
+  /** Delay before responding, in milliseconds */
+  latencyMs?: number;
+}
+
+/**
+ * A regex rule; the first rule matching the prompt answers it
+ */
+export interface MockRule extends Omit<MockFixture, 'prompt'> {
+  /** Regular expression tested against the prompt */
+  match: string;
+  /** Regular expression flags */
+  flags?: string;
+  /** Only answer the first N matching prompts, then fall through (e.g. fail twice, then succeed) */
+  times?: number;
+}
+
+/**
+ * Hash used to name prompt fixtures
+ */
+export function mockPromptHash(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * Offline agent answering from fixtures, for testing agent workflows without vendor CLIs
+ * Responses come from regex rules, then `<fixturesDir>/<hash>.json`, then `defaultResponse`.
+ * In record mode the prompt goes to a real agent and its response is saved as a fixture.
+ */
+export class MockAgentConfig implements IAgentConfig {
+  /** Agent name, used in error messages */
+  name = 'mock';
+
+  /** Fixtures directory, relative to the working directory */
+  fixturesDir = DEFAULT_MOCK_FIXTURES_DIR;
+
+  /** Regex rules, tried in order before the fixture files */
+  rules: MockRule[] = [];
+
+  /** Response for prompts no rule or fixture answers (otherwise they fail) */
+  defaultResponse?: string;
+
+  /** Fixed latency overriding recorded latencies (0 replays instantly) */
+  latencyMs?: number;
+
+  /** Real agent to record responses from; set for record mode */
+  recordFrom?: AgentConfigDefinition;
+
+  /** Working directory for the agent */
+  workingDirectory?: string;
+
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo command instead of executing it */
+  dryRun?: boolean;
+
+  /** Matches per rule index, for `times` */
+  private ruleUses = new Map<number, number>();
+
+  private recorder?: IAgentConfig;
+
+  /**
+   * Describe the mock for dry-run output; nothing is spawned
+   */
+  buildCommand(_prompt: string): AgentInvocation {
+    return { command: 'mock-agent', args: [this.recordFrom ? `--record-from=${this.recordFrom.type}` : '--replay', this.fixturesDir] };
+  }
+
+  /**
+   * The mock needs no environment
+   */
+  getEnvironment(): Record<string, string> {
+    return {};
+  }
+
+  /**
+   * Answer from rules and fixtures, or record a real agent's response
+   */
+  async invoke(prompt: string, promptFile: string | undefined, options: AgentRunOptions): Promise<string> {
+    const fixturesDir = path.resolve(options.cwd, this.fixturesDir);
+
+    if (this.recordFrom) {
+      return this.record(prompt, promptFile, options, fixturesDir);
+    }
+
+    const fixture = this.matchRule(prompt) || await this.readFixture(prompt, fixturesDir);
+    if (!fixture) {
+      if (this.defaultResponse !== undefined) {
+        return this.defaultResponse;
+      }
+      throw new Error(
+        `Mock agent '${this.name}' has no response for prompt ${mockPromptHash(prompt)} ` +
+        `("${summarize(prompt)}"). Add ${path.join(this.fixturesDir, `${mockPromptHash(prompt)}.json`)}, ` +
+        `a matching rule, or record one`
+      );
+    }
+
+    const latency = this.latencyMs ?? fixture.latencyMs ?? 0;
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    if (fixture.error !== undefined) {
+      throw new Error(`Agent failed with code ${fixture.exitCode ?? 1}:\n${fixture.error}`);
+    }
+    if (fixture.responseFile) {
+      return fs.readFile(path.resolve(fixturesDir, fixture.responseFile), 'utf-8');
+    }
+    return fixture.response ?? '';
+  }
+
+  private matchRule(prompt: string): MockFixture | undefined {
+    for (const [index, rule] of this.rules.entries()) {
+      if (!new RegExp(rule.match, rule.flags).test(prompt)) continue;
+
+      const uses = this.ruleUses.get(index) ?? 0;
+      if (rule.times !== undefined && uses >= rule.times) continue;
+      this.ruleUses.set(index, uses + 1);
+      return rule;
+    }
+    return undefined;
+  }
+
+  private async readFixture(prompt: string, fixturesDir: string): Promise<MockFixture | undefined> {
+    const file = path.join(fixturesDir, `${mockPromptHash(prompt)}.json`);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+    try {
+      return JSON.parse(content) as MockFixture;
+    } catch (error: any) {
+      throw new Error(`Invalid mock fixture ${file}: ${error.message}`);
+    }
+  }
+
+  private async record(
+    prompt: string,
+    promptFile: string | undefined,
+    options: AgentRunOptions,
+    fixturesDir: string
+  ): Promise<string> {
+    if (!this.recorder) {
+      // Loaded lazily: the registry imports this module
+      const { createAgentConfig } = await import('./registry.js');
+      this.recorder = createAgentConfig(this.recordFrom!);
+    }
+
+    const started = Date.now();
+    const response = await runAgent(this.recorder, prompt, promptFile, {
+      ...options,
+      cwd: this.recorder.workingDirectory || options.cwd,
+    });
+    const fixture: MockFixture = { prompt, response, latencyMs: Date.now() - started };
+
+    await fs.mkdir(fixturesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(fixturesDir, `${mockPromptHash(prompt)}.json`),
+      JSON.stringify(fixture, null, 2) + '\n',
+      'utf-8'
+    );
+    return response;
+  }
+}
+
+/** First line of a prompt, shortened for error messages */
+function summarize(prompt: string): string {
+  const firstLine = prompt.split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+/**
+ * Builder for mock agent configuration
+ */
+export class MockAgentConfigBuilder extends BaseAgentConfigBuilder<MockAgentConfig> {
+  constructor() {
+    super(new MockAgentConfig());
+  }
+
+  named(name: string): this {
+    this.config.name = name;
+    return this;
+  }
+
+  withFixturesDir(dir: string): this {
+    this.config.fixturesDir = dir;
+    return this;
+  }
+
+  withRule(rule: MockRule): this {
+    this.config.rules.push(rule);
+    return this;
+  }
+
+  withDefaultResponse(response: string): this {
+    this.config.defaultResponse = response;
+    return this;
+  }
+
+  withLatency(ms: number): this {
+    this.config.latencyMs = ms;
+    return this;
+  }
+
+  recordingFrom(definition: AgentConfigDefinition): this {
+    this.config.recordFrom = definition;
+    return this;
+  }
+}
+
+/** Mock agent configuration options in .config.json */
+export interface MockAgentConfigOptions {
+  fixturesDir?: string;
+  rules?: MockRule[];
+  defaultResponse?: string;
+  latencyMs?: number;
+  /** `replay` (default) or `record` */
+  mode?: 'replay' | 'record';
+  /** Real agent used in record mode: `type`, and optionally `config`, `timeout`, `workingDirectory` */
+  record?: Omit<AgentConfigDefinition, 'name'> & { name?: string };
+}
+
+/**
+ * Agent provider for the offline mock agent
+ */
+export const mockProvider: AgentProvider = {
+  type: 'mock',
+  description: 'Offline agent answering from fixtures and rules, with a record mode',
+  create(options: MockAgentConfigOptions, definition) {
+    const where = `Mock agent '${definition.name}'`;
+    const builder = new MockAgentConfigBuilder().named(definition.name);
+
+    if (options.fixturesDir) builder.withFixturesDir(options.fixturesDir);
+    if (options.defaultResponse !== undefined) builder.withDefaultResponse(options.defaultResponse);
+    if (options.latencyMs !== undefined) builder.withLatency(options.latencyMs);
+
+    for (const [index, rule] of (options.rules || []).entries()) {
+      if (typeof rule.match !== 'string') {
+        throw new Error(`${where}: rule ${index + 1} needs a "match" regular expression`);
+      }
+      try {
+        new RegExp(rule.match, rule.flags);
+      } catch (error: any) {
+        throw new Error(`${where}: rule ${index + 1} has an invalid regular expression: ${error.message}`);
+      }
+      if (rule.response === undefined && rule.responseFile === undefined && rule.error === undefined) {
+        throw new Error(`${where}: rule ${index + 1} needs "response", "responseFile" or "error"`);
+      }
+      builder.withRule(rule);
+    }
+
+    const mode = options.mode ?? 'replay';
+    if (mode === 'record') {
+      if (!options.record?.type) {
+        throw new Error(`${where}: record mode needs "record" with the type of the agent to record`);
+      }
+      builder.recordingFrom({ name: `${definition.name} (recording)`, ...options.record });
+    } else if (mode !== 'replay') {
+      throw new Error(`${where}: invalid mode "${mode}" (expected replay, record)`);
+    }
+
+    return builder.build();
+  },
+};
@@ -0,0 +1,86 @@
+import { IAgentConfig, AgentProvider } from './base.js';
+import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
+
+/**
+ * Configuration for OpenAI Codex CLI
+ * Implements IAgentConfig to define how OpenAI commands are built and executed
+ */
+export class OpenAiConfig implements IAgentConfig {
+  /** Model to use */
+  model?: string;
+  
+  /** API key */
+  apiKey?: string;
+  
+  /** Working directory for the agent */
+  workingDirectory?: string;
+  
+  /** Timeout in milliseconds */
+  timeout?: number;
+
+  /** Dry-run mode - echo command instead of executing it */
+  dryRun?: boolean;
+
+  /**
+   * Build command-line arguments for OpenAI Codex CLI
+   */
+  buildCommand(prompt: string): { command: string; args: string[] } {
+    const args: string[] = ['-p', prompt];
+    
+    if (this.model) {
+      args.push('--model', this.model);
+    }
+
+    return { command: 'openai', args };
+  }
+
+  /**
+   * Get environment variables for OpenAI
+   */
+  getEnvironment(): Record<string, string> {
+    const env: Record<string, string> = {};
+    if (this.apiKey) {
+      env.OPENAI_API_KEY = this.apiKey;
+    }
+    return env;
+  }
+}
+
+/**
+ * Builder for OpenAI configuration
+ */
+export class OpenAiConfigBuilder extends BaseAgentConfigBuilder<OpenAiConfig> {
+  constructor() {
+    super(new OpenAiConfig());
+  }
+
+  withModel(model: string): this {
+    this.config.model = model;
+    return this;
+  }
+
+  withApiKey(key: string): this {
+    this.config.apiKey = key;
+    return this;
+  }
+}
+
+/** OpenAI-specific configuration options in .config.json */
+export interface OpenAiConfigOptions {
+  model?: string;
+  apiKey?: string;
+}
+
+/**
+ * Agent provider for OpenAI Codex CLI
+ */
+export const openaiProvider: AgentProvider = {
+  type: 'openai',
+  description: 'OpenAI Codex CLI (openai)',
+  create(options: OpenAiConfigOptions) {
+    const builder = new OpenAiConfigBuilder();
+    if (options.model) builder.withModel(options.model);
+    if (options.apiKey) builder.withApiKey(options.apiKey);
+    return builder.build();
+  },
+};
@@ -1,4 +1,4 @@
-import { IAgentConfig } from './base.js';
+import { IAgentConfig, AgentProvider } from './base.js';
 import { BaseAgentConfigBuilder } from './BaseAgentConfigBuilder.js';
 
 /**
@@ -76,3 +76,25 @@ export class QwenConfigBuilder extends BaseAgentConfigBuilder<QwenConfig> {
     return this;
   }
 }
+
+/** Qwen-specific configuration options in .config.json */
+export interface QwenConfigOptions {
+  enablePlan?: boolean;
+  model?: 'qwen3-coder' | 'qwen-coder-plus' | 'qwen-coder-turbo';
+  contextFiles?: string[];
+}
+
+/**
+ * Agent provider for Qwen Code CLI
+ */
+export const qwenProvider: AgentProvider = {
+  type: 'qwen',
+  description: 'Qwen Code CLI (qwen)',
+  create(options: QwenConfigOptions) {
+    const builder = new QwenConfigBuilder();
+    if (options.enablePlan) builder.withPlanningMode();
+    if (options.model) builder.withModel(options.model);
+    if (options.contextFiles) builder.withContextFiles(...options.contextFiles);
+    return builder.build();
+  },
+};
@@ -0,0 +1,81 @@
+import { IAgentConfig, AgentProvider, AgentConfigDefinition } from './base.js';
+import { geminiProvider } from './gemini.js';
+import { claudeProvider } from './claude.js';
+import { copilotProvider } from './copilot.js';
+import { aiderProvider } from './aider.js';
+import { qwenProvider } from './qwen.js';
+import { llmProvider } from './llm.js';
+import { codebuffProvider } from './codebuff.js';
+import { crushProvider } from './crush.js';
+import { openaiProvider } from './openai.js';
+import { customProvider } from './custom.js';
+import { mockProvider } from './mock.js';
+import { chatCompletionsProvider } from './chat-completions.js';
+
+/**
+ * Registered agent providers by tool name
+ */
+const providers = new Map<string, AgentProvider>();
+
+/**
+ * Register an agent provider, replacing any provider with the same type
+ * Custom tasks can register providers for tools that are not built in
+ */
+export function registerAgentProvider(provider: AgentProvider): void {
+  providers.set(provider.type, provider);
+}
+
+/**
+ * Get the provider registered for a tool name
+ */
+export function getAgentProvider(type: string): AgentProvider | undefined {
+  return providers.get(type);
+}
+
+/**
+ * List the registered provider types
+ */
+export function listAgentProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create an IAgentConfig from a .config.json agent definition
+ * @throws Error if no provider is registered for the definition's type
+ */
+export function createAgentConfig(definition: AgentConfigDefinition): IAgentConfig {
+  const provider = providers.get(definition.type);
+  if (!provider) {
+    throw new Error(
+      `Unknown agent type: ${definition.type}. ` +
+      `Registered agent types: ${listAgentProviders().join(', ')}`
+    );
+  }
+
+  const options = definition.config || {};
+  const config = provider.create(options, definition);
+
+  if (definition.workingDirectory) config.workingDirectory = definition.workingDirectory;
+  if (definition.timeout) config.timeout = definition.timeout;
+  if (options.showShell) config.showShell = true;
+
+  return config;
+}
+
+// Built-in providers
+for (const provider of [
+  geminiProvider,
+  claudeProvider,
+  copilotProvider,
+  aiderProvider,
+  qwenProvider,
+  llmProvider,
+  codebuffProvider,
+  crushProvider,
+  openaiProvider,
+  customProvider,
+  mockProvider,
+  chatCompletionsProvider,
+]) {
+  registerAgentProvider(provider);
+}
@@ -0,0 +1,96 @@
+import { IProgressArea } from '../../types.js';
+import { IAgentConfig } from './base.js';
+
+/**
+ * Options for AgentOutputStream
+ */
+export interface AgentOutputStreamOptions {
+  /** Live progress area showing the latest lines */
+  progress?: IProgressArea;
+  /** Persists the output so far; called periodically while output arrives */
+  flush?: (text: string) => Promise<void>;
+  /** Milliseconds between flushes (default 2000) */
+  flushInterval?: number;
+  /** Number of latest lines shown in the progress area (default 5) */
+  tailLines?: number;
+}
+
+/**
+ * Collects an agent's stdout while it runs
+ * Lines go through the config's parseStreamLine (for JSON-line streaming tools), the latest
+ * ones are shown in the progress area, and the text so far is flushed periodically.
+ */
+export class AgentOutputStream {
+  private pending = '';
+  private lines: string[] = [];
+  private dirty = false;
+  private flushing: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private config: IAgentConfig, private options: AgentOutputStreamOptions = {}) {
+    if (options.flush) {
+      this.timer = setInterval(() => this.flush(), options.flushInterval ?? 2000);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Text received so far, after stream parsing
+   */
+  get text(): string {
+    return this.lines.join('\n');
+  }
+
+  /**
+   * Add a chunk of stdout
+   */
+  write(chunk: string): void {
+    const parts = (this.pending + chunk).split(/\r?\n/);
+    this.pending = parts.pop()!;
+    for (const line of parts) {
+      this.addLine(line);
+    }
+  }
+
+  /**
+   * Process the last partial line, write a final flush and stop the progress area
+   * @param success - Whether the agent succeeded
+   * @param message - Line left in place of the progress area
+   */
+  async end(success: boolean, message?: string): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    if (this.pending) {
+      this.addLine(this.pending);
+      this.pending = '';
+    }
+    await this.flush();
+    this.options.progress?.stop(success, message);
+  }
+
+  private addLine(line: string): void {
+    const parsed = this.config.parseStreamLine ? this.config.parseStreamLine(line) : line;
+    if (parsed === undefined) return;
+
+    this.lines.push(...parsed.split('\n'));
+    this.dirty = true;
+
+    const tail = this.lines.filter(l => l.trim()).slice(-(this.options.tailLines ?? 5));
+    this.options.progress?.update(tail);
+  }
+
+  /**
+   * Write the text so far, one flush at a time
+   */
+  private flush(): Promise<void> {
+    if (!this.options.flush || !this.dirty) {
+      return this.flushing;
+    }
+    this.dirty = false;
+    const text = this.text;
+    // A failed partial write must not fail the agent; the next flush retries
+    this.flushing = this.flushing
+      .then(() => this.options.flush!(text))
+      .catch(() => { this.dirty = true; });
+    return this.flushing;
+  }
+}
@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import fse from 'fs-extra';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator, ContentTypeDecorator } from '../decorators.js';
+import { parsePatch, applyHunks, formatPatch, FilePatch } from '../diff.js';
+import { resolvePath } from '../utils.js';
+import { assertWriteAllowed, writeFileAtomic } from './write.js';
+
+/** Header path marking a created or deleted file */
+const NULL_PATH = '/dev/null';
+
+/**
+ * Options for ApplyPatchCommand
+ */
+export interface ApplyPatchOptions {
+  /** Context lines that may be ignored at each end of a hunk to make it fit (default 2) */
+  fuzz?: number;
+  /** Leading path components to remove from header paths (default: remove a git-style a/ or b/ prefix) */
+  strip?: number;
+  /** Fail without changing any file if a hunk cannot be applied (default false: apply the rest and report) */
+  failOnReject?: boolean;
+  /** Copy changed files to `<file>.backup` first (default: config.backup, set by --backup) */
+  backup?: boolean;
+  /** Directories patched files must stay inside (default: config.allowedWriteRoots, or the working directory) */
+  allowedRoots?: string[];
+  /** Report what would change without writing (default: config.dryRun, set by --dry-run) */
+  dryRun?: boolean;
+  /** Token for the JSON report */
+  token?: string;
+  /** Token for the rejected hunks */
+  rejectsToken?: string;
+}
+
+/**
+ * Outcome for one file in the ApplyPatchCommand report
+ */
+export interface PatchedFile {
+  /** Path relative to the working directory */
+  path: string;
+  status: 'modified' | 'created' | 'deleted' | 'rejected';
+  appliedHunks: number;
+  rejectedHunks: number;
+}
+
+/**
+ * ApplyPatchCommand - Applies a unified diff to the working tree
+ *
+ * Hunks are placed like patch(1): at their recorded line, or the nearest place the
+ * context matches, and with fuzz, ignoring up to `fuzz` context lines at each end.
+ * Files are written atomically and must stay inside the allowed write roots.
+ * Hunks that cannot be placed are left out; the command outputs a JSON report of
+ * every file and a second ref with the rejected hunks as a patch (empty when all
+ * applied), which can be fed back to an agent. Text around the diff, such as an
+ * agent's explanation, is ignored.
+ *
+ * Usage in workflow:
+ *   const patch = await flow.run(agentCommand);
+ *   const [report, rejects] = await flow.run(new ApplyPatchCommand(patch[0], { rejectsToken: 'rejects' }));
+ */
+export class ApplyPatchCommand implements ICommand {
+  private patchRef: StringRef;
+  private options: ApplyPatchOptions;
+
+  /**
+   * Create a new ApplyPatchCommand
+   * @param patchRef - Reference to the unified diff
+   * @param options - Fuzz, path stripping, reject handling, backup, sandbox and dry-run options
+   */
+  constructor(patchRef: StringRef, options: ApplyPatchOptions = {}) {
+    this.patchRef = patchRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const patchText = await context.get(this.patchRef);
+    const refName = this.patchRef.token || this.patchRef.id;
+
+    if (patchText === undefined) {
+      throw new Error(`Patch reference not found: ${refName}`);
+    }
+
+    const filePatches = parsePatch(patchText).filter(filePatch => filePatch.hunks.length > 0);
+    if (filePatches.length === 0) {
+      throw new Error(`No file changes found in patch reference: ${refName}`);
+    }
+
+    const config = context.config || {};
+    const fuzz = this.options.fuzz ?? 2;
+
+    // Work out every file's new content before touching the tree
+    const plans: { file: PatchedFile; absolutePath: string; exists: boolean; content?: string }[] = [];
+    const rejects: string[] = [];
+
+    for (const filePatch of filePatches) {
+      const isNew = filePatch.oldPath === NULL_PATH;
+      const isDeleted = filePatch.newPath === NULL_PATH;
+      const absolutePath = await this.resolveTarget(filePatch, isNew, isDeleted, context.cwd);
+      assertWriteAllowed(absolutePath, context, this.options.allowedRoots);
+
+      const exists = await fse.pathExists(absolutePath);
+      const file: PatchedFile = {
+        path: path.relative(context.cwd, absolutePath).replace(/\\/g, '/'),
+        status: 'rejected',
+        appliedHunks: 0,
+        rejectedHunks: filePatch.hunks.length,
+      };
+
+      // A new file must not exist yet, and a changed file must
+      let result = { text: '', rejected: filePatch.hunks };
+      if (isNew !== exists) {
+        result = applyHunks(exists ? await fs.readFile(absolutePath, 'utf-8') : '', filePatch.hunks, fuzz);
+      }
+
+      file.appliedHunks = filePatch.hunks.length - result.rejected.length;
+      file.rejectedHunks = result.rejected.length;
+      if (result.rejected.length > 0) {
+        rejects.push(formatPatch(filePatch.oldPath, filePatch.newPath, result.rejected));
+      }
+
+      if (file.appliedHunks > 0) {
+        file.status = isNew ? 'created' : isDeleted && result.rejected.length === 0 && result.text === '' ? 'deleted' : 'modified';
+      }
+      plans.push({ file, absolutePath, exists, content: file.appliedHunks > 0 ? result.text : undefined });
+    }
+
+    if (this.options.failOnReject && rejects.length > 0) {
+      throw new Error(`Patch ${refName} does not apply cleanly; rejected hunks:\n${rejects.join('')}`);
+    }
+
+    const dryRun = this.options.dryRun ?? config.dryRun === true;
+    if (!dryRun) {
+      for (const { file, absolutePath, exists, content } of plans) {
+        if (content === undefined) continue;
+
+        if (exists && (this.options.backup ?? config.backup === true)) {
+          await fse.copy(absolutePath, `${absolutePath}.backup`);
+        }
+        if (file.status === 'deleted') {
+          await fs.rm(absolutePath);
+        } else {
+          await fse.ensureDir(path.dirname(absolutePath));
+          await writeFileAtomic(absolutePath, content);
+        }
+      }
+    }
+
+    const report = {
+      dryRun,
+      files: plans.map(plan => plan.file),
+      rejected: plans.reduce((total, plan) => total + plan.file.rejectedHunks, 0),
+    };
+
+    return [
+      [report, this.options.token ? [new TokenDecorator(this.options.token)] : []],
+      [rejects.join(''), [
+        new ContentTypeDecorator('text', 'text/x-diff'),
+        ...(this.options.rejectsToken ? [new TokenDecorator(this.options.rejectsToken)] : []),
+      ]],
+    ];
+  }
+
+  /**
+   * Choose the file a patch applies to: the new name, or the old name when only
+   * that exists (as patch(1) does for diffs whose new side is a label)
+   */
+  private async resolveTarget(filePatch: FilePatch, isNew: boolean, isDeleted: boolean, cwd: string): Promise<string> {
+    const oldPath = resolvePath(this.stripPath(filePatch.oldPath, 'a/'), cwd);
+    const newPath = resolvePath(this.stripPath(filePatch.newPath, 'b/'), cwd);
+
+    if (isNew) return newPath;
+    if (isDeleted) return oldPath;
+    return !(await fse.pathExists(newPath)) && await fse.pathExists(oldPath) ? oldPath : newPath;
+  }
+
+  /**
+   * Remove leading path components from a header path
+   */
+  private stripPath(headerPath: string, gitPrefix: string): string {
+    if (this.options.strip !== undefined) {
+      return headerPath.split('/').slice(this.options.strip).join('/');
+    }
+    return headerPath.startsWith(gitPrefix) ? headerPath.slice(gitPrefix.length) : headerPath;
+  }
+}
@@ -0,0 +1,53 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+import { parseCsv, CsvParseOptions } from '../csv.js';
+
+/**
+ * Options for CsvParseCommand
+ */
+export interface CsvParseCommandOptions extends CsvParseOptions {
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * CsvParseCommand - Parses CSV content into a JSON array
+ * 
+ * With headers (the default) each row becomes an object keyed by column name;
+ * otherwise each row is an array of fields. The result is stored as JSON, so
+ * TemplateCommand can loop over it with {{#each}}.
+ * 
+ * Usage in workflow:
+ *   const csv = await flow.run(new ReadCommand('report.csv'));
+ *   const rows = await flow.run(new CsvParseCommand(csv[0], { token: 'rows' }));
+ *   const summary = await flow.run(new TemplateCommand('{{#each rows}}- {{name}}: {{status}}\n{{/each}}'));
+ */
+export class CsvParseCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: CsvParseCommandOptions;
+
+  /**
+   * Create a new CsvParseCommand
+   * @param sourceRef - Reference to the CSV content
+   * @param options - delimiter (default ','), headers (default true) and an optional token
+   */
+  constructor(sourceRef: StringRef, options: CsvParseCommandOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const content = await context.get(this.sourceRef);
+
+    if (content === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    const rows = parseCsv(content, this.options);
+    return [[rows, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
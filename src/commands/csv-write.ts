@@ -0,0 +1,61 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
+import { TokenDecorator, ContentTypeDecorator } from '../decorators.js';
+import { stringifyCsv, CsvStringifyOptions } from '../csv.js';
+
+/**
+ * Options for CsvWriteCommand
+ */
+export interface CsvWriteCommandOptions extends CsvStringifyOptions {
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * CsvWriteCommand - Serializes a JSON array to CSV text
+ * 
+ * Objects are written under a header row (columns default to the objects' keys);
+ * arrays are written as plain rows. The CSV is stored as text with the text/csv
+ * MIME type; use WriteCommand to save it to a file.
+ * 
+ * Usage in workflow:
+ *   const rows = await flow.run(new SetCommand([{ file: 'a.ts', issues: 2 }]));
+ *   const csv = await flow.run(new CsvWriteCommand(rows[0], { columns: ['file', 'issues'] }));
+ *   await flow.run(new WriteCommand('report.csv', csv[0]));
+ */
+export class CsvWriteCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: CsvWriteCommandOptions;
+
+  /**
+   * Create a new CsvWriteCommand
+   * @param sourceRef - Reference to a JSON array of objects or arrays
+   * @param options - delimiter (default ','), columns, headers (default true) and an optional token
+   */
+  constructor(sourceRef: StringRef, options: CsvWriteCommandOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    // Throws if the content is not valid JSON
+    const rows = await readJson(context, this.sourceRef);
+
+    if (rows === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+    if (!Array.isArray(rows)) {
+      throw new Error(`CsvWriteCommand expected a JSON array in reference: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    const decorators: IRefDecorator[] = [new ContentTypeDecorator('text', 'text/csv')];
+    if (this.options.token) {
+      decorators.push(new TokenDecorator(this.options.token));
+    }
+    return [[stringifyCsv(rows, this.options), decorators]];
+  }
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator, ContentTypeDecorator } from '../decorators.js';
+import { createUnifiedDiff } from '../diff.js';
+import { resolvePath } from '../utils.js';
+
+/**
+ * One side of a diff: a reference, or a file path relative to the working directory
+ */
+export type DiffSource = StringRef | string;
+
+/**
+ * Options for DiffCommand
+ */
+export interface DiffOptions {
+  /** Unchanged lines shown around each change (default 3) */
+  context?: number;
+  /** `---` label (default: a/<file> for files, the token or id for refs) */
+  oldLabel?: string;
+  /** `+++` label (default: b/<file> for files, the token or id for refs) */
+  newLabel?: string;
+  /** Token to reference the diff */
+  token?: string;
+}
+
+/**
+ * One loaded side of a diff
+ */
+interface DiffSide {
+  content: string;
+  label: string;
+  /** File path relative to the working directory (absent for refs) */
+  path?: string;
+  /** The file does not exist */
+  missing?: boolean;
+}
+
+/**
+ * DiffCommand - Creates a unified diff between two refs, or a ref and a file
+ *
+ * A string source is read as a file relative to the working directory. A missing
+ * file counts as empty and is labelled /dev/null, and a ref opposite it takes the
+ * file's path, so diffing a new file against a ref yields a patch that creates it.
+ * The output is the diff text (empty when both sides are equal), in the format
+ * ApplyPatchCommand and `git apply` accept.
+ *
+ * Usage in workflow:
+ *   const proposed = await flow.run(agentCommand);
+ *   const preview = await flow.run(new DiffCommand('src/index.ts', proposed[0], { token: 'preview' }));
+ */
+export class DiffCommand implements ICommand {
+  private oldSource: DiffSource;
+  private newSource: DiffSource;
+  private options: DiffOptions;
+
+  /**
+   * Create a new DiffCommand
+   * @param oldSource - Original content: a reference or a file path
+   * @param newSource - Changed content: a reference or a file path
+   * @param options - Context lines, header labels and an optional token
+   */
+  constructor(oldSource: DiffSource, newSource: DiffSource, options: DiffOptions = {}) {
+    this.oldSource = oldSource;
+    this.newSource = newSource;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const oldSide = await this.load(this.oldSource, 'a', context);
+    const newSide = await this.load(this.newSource, 'b', context);
+
+    // A ref facing a missing file names that file, so the patch creates (or deletes) it
+    const oldLabel = oldSide.path === undefined && newSide.missing ? `a/${newSide.path}` : oldSide.label;
+    const newLabel = newSide.path === undefined && oldSide.missing ? `b/${oldSide.path}` : newSide.label;
+
+    const diff = createUnifiedDiff(oldSide.content, newSide.content, {
+      oldLabel: this.options.oldLabel ?? oldLabel,
+      newLabel: this.options.newLabel ?? newLabel,
+      context: this.options.context,
+    });
+
+    const decorators: IRefDecorator[] = [new ContentTypeDecorator('text', 'text/x-diff')];
+    if (this.options.token) {
+      decorators.push(new TokenDecorator(this.options.token));
+    }
+    return [[diff, decorators]];
+  }
+
+  /**
+   * Read one side of the diff and choose its header label
+   */
+  private async load(source: DiffSource, prefix: string, context: IFlow): Promise<DiffSide> {
+    if (typeof source !== 'string') {
+      const content = await context.get(source);
+      if (content === undefined) {
+        throw new Error(`Source reference not found: ${source.token || source.id}`);
+      }
+      return { content, label: source.token || source.id };
+    }
+
+    const absolutePath = resolvePath(source, context.cwd);
+    const relativePath = path.relative(context.cwd, absolutePath).replace(/\\/g, '/');
+    try {
+      return { content: await fs.readFile(absolutePath, 'utf-8'), label: `${prefix}/${relativePath}`, path: relativePath };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { content: '', label: '/dev/null', path: relativePath, missing: true };
+      }
+      throw error;
+    }
+  }
+}
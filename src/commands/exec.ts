@@ -0,0 +1,193 @@
+import { spawn } from 'child_process';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+
+/**
+ * Options for ExecCommand and ShellCommand
+ */
+export interface ExecOptions {
+  /** Working directory (default: the flow's cwd) */
+  cwd?: string;
+  /** Environment variables added to the current process environment */
+  env?: Record<string, string>;
+  /** Reference whose value is written to the process's stdin */
+  stdin?: StringRef;
+  /** Time limit in milliseconds; the process is killed when exceeded (default 60000) */
+  timeout?: number;
+  /** Throw when the process exits with a non-zero code (default false) */
+  failOnError?: boolean;
+  /** Token names for the stdout, stderr and exit code outputs */
+  tokens?: { stdout?: string; stderr?: string; exitCode?: string };
+}
+
+/**
+ * Captured result of a finished process
+ */
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Run a program to completion and capture its output
+ * @param shell - Run `command` through the platform shell instead of executing it directly
+ * @throws Error if the program cannot be started or exceeds the timeout
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd: string; env?: Record<string, string>; input?: string; timeout?: number; shell?: boolean }
+): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: options.shell ?? false,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    // Decode as a stream so multi-byte characters split across chunks stay intact
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+
+    child.stdout.on('data', (data: string) => {
+      stdout += data;
+    });
+
+    child.stderr.on('data', (data: string) => {
+      stderr += data;
+    });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    if (options.timeout) {
+      timeoutId = setTimeout(() => {
+        settled = true;
+        child.kill();
+        reject(new Error(`Process timed out after ${options.timeout}ms: ${command}`));
+      }, options.timeout);
+    }
+
+    child.on('close', (code) => {
+      if (timeoutId) clearTimeout(timeoutId);
+      if (!settled) {
+        settled = true;
+        resolve({ stdout, stderr, exitCode: code ?? 1 });
+      }
+    });
+
+    child.on('error', (error) => {
+      if (timeoutId) clearTimeout(timeoutId);
+      if (!settled) {
+        settled = true;
+        reject(new Error(`Failed to execute ${command}: ${error.message}`));
+      }
+    });
+
+    // Ignore EPIPE when the program exits without reading stdin
+    child.stdin.on('error', () => {});
+    if (options.input !== undefined) {
+      child.stdin.write(options.input);
+    }
+    child.stdin.end();
+  });
+}
+
+/**
+ * ExecCommand - Runs a program with arguments and captures stdout, stderr and exit code
+ * 
+ * The program is executed directly (no shell), so arguments need no quoting and behave
+ * the same on every platform. Produces three outputs, in order: stdout, stderr and the
+ * exit code (as text). A non-zero exit code is returned, not thrown, unless `failOnError`
+ * is set. In dry-run mode nothing runs; stdout describes the command instead.
+ * 
+ * Usage in workflow:
+ *   const [diff, , exitCode] = await flow.run(new ExecCommand('git', ['diff', '--stat'], {
+ *     tokens: { stdout: 'diff', exitCode: 'diff-exit-code' },
+ *   }));
+ */
+export class ExecCommand implements ICommand {
+  protected command: string;
+  protected args: string[];
+  protected options: ExecOptions;
+  protected shell = false;
+
+  /** Result of the last execution */
+  public result?: ProcessResult;
+
+  /**
+   * Create a new ExecCommand
+   * @param command - Program to run (resolved from PATH)
+   * @param args - Program arguments
+   * @param options - cwd, env, stdin, timeout, failOnError and output tokens
+   */
+  constructor(command: string, args: string[] = [], options: ExecOptions = {}) {
+    this.command = command;
+    this.args = args;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const cwd = this.options.cwd || context.cwd;
+
+    // In dry-run mode, describe the command instead of running it
+    if (context.config?.dryRun) {
+      this.result = { stdout: `[DRY-RUN] Would execute: ${this.describe()} (cwd ${cwd})`, stderr: '', exitCode: 0 };
+      return this.outputs();
+    }
+
+    let input: string | undefined;
+    if (this.options.stdin) {
+      input = await context.get(this.options.stdin);
+      if (input === undefined) {
+        throw new Error(`Stdin reference not found: ${this.options.stdin.token || this.options.stdin.id}`);
+      }
+    }
+
+    this.result = await runProcess(this.command, this.args, {
+      cwd,
+      env: this.options.env,
+      input,
+      timeout: this.options.timeout ?? 60000,
+      shell: this.shell,
+    });
+
+    if (this.options.failOnError && this.result.exitCode !== 0) {
+      throw new Error(
+        `${this.describe()} exited with code ${this.result.exitCode}:\n${this.result.stderr || this.result.stdout}`
+      );
+    }
+
+    return this.outputs();
+  }
+
+  /**
+   * The stdout, stderr and exit code outputs of the last result
+   */
+  private outputs(): [any, IRefDecorator[]][] {
+    const result = this.result!;
+    const tokens = this.options.tokens || {};
+    const decorate = (token?: string): IRefDecorator[] => token ? [new TokenDecorator(token)] : [];
+
+    return [
+      [result.stdout, decorate(tokens.stdout)],
+      [result.stderr, decorate(tokens.stderr)],
+      [String(result.exitCode), decorate(tokens.exitCode)],
+    ];
+  }
+
+  /**
+   * Human-readable command line for messages
+   */
+  protected describe(): string {
+    return [this.command, ...this.args].join(' ');
+  }
+}
@@ -0,0 +1,86 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+import { parseCodeBlocks, normalizeLanguage, CodeBlock } from '../code-blocks.js';
+
+/**
+ * Options for ExtractCodeBlocksCommand
+ */
+export interface ExtractCodeBlocksOptions {
+  /** Only keep blocks in these languages ('ts' and 'typescript' are equivalent) */
+  language?: string | string[];
+  /** Only keep blocks whose filename annotation ends with this path */
+  filename?: string;
+  /** Token names for the kept blocks, in order */
+  tokens?: string[];
+  /** Name blocks without an explicit token `<prefix>-1`, `<prefix>-2`, ... */
+  tokenPrefix?: string;
+  /** Fail when no block matches (default false: no outputs) */
+  required?: boolean;
+}
+
+/**
+ * ExtractCodeBlocksCommand - Splits markdown (typically an agent response) into its fenced code blocks
+ *
+ * Each matching block becomes a separate text output without its fences, so the
+ * chatter around the code never reaches a source file. Language and filename
+ * annotations on the fence (```ts src/foo.ts) are available through `blocks`
+ * after execution. See code-blocks.ts for the recognized fence formats.
+ *
+ * Usage in workflow:
+ *   const answer = await flow.run(agentCommand);
+ *   const code = await flow.run(new ExtractCodeBlocksCommand(answer[0], { language: 'ts', tokens: ['impl'] }));
+ *   await flow.run(new WriteCommand('src/tasks/foo.ts', code[0]));
+ */
+export class ExtractCodeBlocksCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: ExtractCodeBlocksOptions;
+
+  /** Blocks extracted by the last execution, in output order */
+  blocks: CodeBlock[] = [];
+
+  /**
+   * Create a new ExtractCodeBlocksCommand
+   * @param sourceRef - Reference to the markdown content
+   * @param options - Language/filename filters, token names and whether a match is required
+   */
+  constructor(sourceRef: StringRef, options: ExtractCodeBlocksOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const content = await context.get(this.sourceRef);
+
+    if (content === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    const languages = this.options.language === undefined
+      ? undefined
+      : (Array.isArray(this.options.language) ? this.options.language : [this.options.language]).map(normalizeLanguage);
+    const filename = this.options.filename?.replace(/\\/g, '/');
+
+    this.blocks = parseCodeBlocks(content).filter(block =>
+      (!languages || languages.includes(normalizeLanguage(block.language))) &&
+      (!filename || (block.filename !== undefined && block.filename.replace(/\\/g, '/').endsWith(filename)))
+    );
+
+    if (this.blocks.length === 0 && this.options.required) {
+      const filters = [
+        languages ? `language ${languages.join('/')}` : '',
+        filename ? `filename ${filename}` : '',
+      ].filter(Boolean).join(', ');
+      throw new Error(`No code blocks${filters ? ` (${filters})` : ''} found in reference: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    return this.blocks.map((block, index): [any, IRefDecorator[]] => {
+      const token = this.options.tokens?.[index]
+        ?? (this.options.tokenPrefix ? `${this.options.tokenPrefix}-${index + 1}` : undefined);
+      return [block.content, token ? [new TokenDecorator(token)] : []];
+    });
+  }
+}
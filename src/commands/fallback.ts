@@ -0,0 +1,60 @@
+import { ICommand, IFlow, ICardBuilder, IRefDecorator } from '../types.js';
+
+/**
+ * FallbackCommand - Tries commands in order and returns the first one that succeeds
+ * 
+ * Only the successful command's outputs are returned, so they are stored once. If every
+ * command fails, an AggregateError lists each failure.
+ * 
+ * Usage in workflow:
+ *   const refs = await flow.run(new FallbackCommand([
+ *     new AgentCommand(geminiConfig, [promptRef]),
+ *     new AgentCommand(claudeConfig, [promptRef]),
+ *   ]));
+ */
+export class FallbackCommand implements ICommand {
+  private commands: ICommand[];
+  private onFallback?: (error: Error, failedIndex: number) => void;
+
+  /** Index of the command that succeeded in the last execution */
+  public usedIndex = -1;
+
+  /**
+   * Create a new FallbackCommand
+   * @param commands - Commands to try, in order of preference
+   * @param onFallback - Optional callback invoked when a command fails and the next one is tried
+   */
+  constructor(commands: ICommand[], onFallback?: (error: Error, failedIndex: number) => void) {
+    if (commands.length === 0) {
+      throw new Error('FallbackCommand requires at least one command');
+    }
+    this.commands = commands;
+    this.onFallback = onFallback;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const errors: Error[] = [];
+    this.usedIndex = -1;
+
+    for (let i = 0; i < this.commands.length; i++) {
+      try {
+        const results = await this.commands[i].execute(context, args, cardBuilder);
+        this.usedIndex = i;
+        return results;
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        errors.push(err);
+        if (i < this.commands.length - 1) {
+          this.onFallback?.(err, i);
+        }
+      }
+    }
+
+    const details = errors.map((error, i) => `  [${i}] ${this.commands[i].constructor.name}: ${error.message}`);
+    throw new AggregateError(errors, `All ${errors.length} command(s) failed:\n${details.join('\n')}`);
+  }
+}
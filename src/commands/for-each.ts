@@ -0,0 +1,100 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
+import { SetCommand } from './set.js';
+
+/**
+ * Refs produced for a single item of a ForEachCommand
+ */
+export interface ForEachIteration {
+  /** Zero-based item index */
+  index: number;
+  /** Ref holding the item value */
+  item: StringRef;
+  /** Refs produced by the item's commands */
+  refs: StringRef[];
+}
+
+/**
+ * ForEachCommand - Splits a StringRef into items and runs a sub-pipeline per item
+ * 
+ * The source is split by line (blank lines skipped) or parsed as a JSON array. Each item
+ * is stored under the item token before the body runs, so TemplateCommand can use
+ * {{item}} and the body factory receives the item ref directly. The command stores a
+ * JSON summary of every iteration; the iterations are also available on `iterations`.
+ * 
+ * Usage in workflow:
+ *   const files = await flow.run(new SetCommand('src/a.ts\nsrc/b.ts'));
+ *   await flow.run(new ForEachCommand(files[0], (item) => [
+ *     new TemplateCommand('Review {{item}}'),
+ *   ]));
+ */
+export class ForEachCommand implements ICommand {
+  private sourceRef: StringRef;
+  private body: (item: StringRef, index: number) => ICommand[] | Promise<ICommand[]>;
+  private split: 'lines' | 'json';
+  private itemToken: string;
+
+  /** Refs produced per item (populated after execution) */
+  public iterations: ForEachIteration[] = [];
+
+  /**
+   * Create a new ForEachCommand
+   * @param sourceRef - Reference holding the list to iterate
+   * @param body - Factory returning the commands to run for each item
+   * @param options - split: 'lines' (default) or 'json'; itemToken: token for the current item (default 'item')
+   */
+  constructor(
+    sourceRef: StringRef,
+    body: (item: StringRef, index: number) => ICommand[] | Promise<ICommand[]>,
+    options?: { split?: 'lines' | 'json'; itemToken?: string }
+  ) {
+    this.sourceRef = sourceRef;
+    this.body = body;
+    this.split = options?.split || 'lines';
+    this.itemToken = options?.itemToken || 'item';
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const items = await this.getItems(context);
+
+    this.iterations = [];
+    for (let index = 0; index < items.length; index++) {
+      const [itemRef] = await context.run(new SetCommand(items[index], this.itemToken));
+      const refs: StringRef[] = [];
+      for (const command of await this.body(itemRef, index)) {
+        refs.push(...await context.run(command));
+      }
+      this.iterations.push({ index, item: itemRef, refs });
+    }
+
+    return [[this.iterations, []]];
+  }
+
+  /**
+   * Split the source value into items
+   */
+  private async getItems(context: IFlow): Promise<any[]> {
+    const label = this.sourceRef.token || this.sourceRef.id;
+
+    if (this.split === 'json') {
+      const value = await readJson(context, this.sourceRef);
+      if (value === undefined) {
+        throw new Error(`Source reference not found: ${label}`);
+      }
+      if (!Array.isArray(value)) {
+        throw new Error(`ForEachCommand expected a JSON array in reference: ${label}`);
+      }
+      return value;
+    }
+
+    const content = await context.get(this.sourceRef);
+    if (content === undefined) {
+      throw new Error(`Source reference not found: ${label}`);
+    }
+    return content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  }
+}
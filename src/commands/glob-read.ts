@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ICommand, IFlow, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+import { findFiles } from '../glob.js';
+import { resolvePath } from '../utils.js';
+
+/**
+ * Options for GlobReadCommand
+ */
+export interface GlobReadOptions {
+  /** 'map' stores a JSON object of path → content; 'prompt' stores one text with a header per file (default 'map') */
+  format?: 'map' | 'prompt';
+  /** Additional patterns to exclude */
+  ignore?: string[];
+  /** Honour .gitignore files (default true) */
+  gitignore?: boolean;
+  /** Let wildcards match names starting with '.' (default false) */
+  dot?: boolean;
+  /** Store an empty result instead of throwing when nothing matches */
+  optional?: boolean;
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * GlobReadCommand - Reads every file matching one or more glob patterns
+ *
+ * Files ignored by .gitignore are skipped, so `src/**\/*.ts` never pulls in build
+ * output or dependencies. The 'map' format keys contents by path relative to the
+ * working directory (JSON, ready for JsonQueryCommand, ForEachCommand or templates);
+ * the 'prompt' format concatenates the files under `## path` headers with fenced
+ * contents, ready to pass to an agent. See glob.ts for the pattern syntax.
+ *
+ * Usage in workflow:
+ *   const sources = await flow.run(new GlobReadCommand('src/**\/*.ts', { format: 'prompt' }));
+ *   const review = await flow.run(new JoinCommand(['Review this code:\n\n', sources[0]]));
+ */
+export class GlobReadCommand implements ICommand {
+  private patterns: string | string[];
+  private options: GlobReadOptions;
+
+  /** Files read by the last execution, relative to the working directory */
+  files: string[] = [];
+
+  /**
+   * Create a new GlobReadCommand
+   * @param patterns - Glob pattern(s) relative to the working directory; prefix with ! to exclude
+   * @param options - Output format, ignore rules and an optional token
+   */
+  constructor(patterns: string | string[], options: GlobReadOptions = {}) {
+    this.patterns = patterns;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    this.files = await findFiles(this.patterns, {
+      cwd: context.cwd,
+      ignore: this.options.ignore,
+      gitignore: this.options.gitignore,
+      dot: this.options.dot,
+    });
+
+    if (this.files.length === 0 && !this.options.optional) {
+      const patterns = Array.isArray(this.patterns) ? this.patterns.join(', ') : this.patterns;
+      throw new Error(`No files match pattern: ${patterns}`);
+    }
+
+    const contents: Record<string, string> = {};
+    for (const file of this.files) {
+      contents[file] = await fs.readFile(resolvePath(file, context.cwd), 'utf-8');
+    }
+
+    const result = this.options.format === 'prompt' ? formatFilesAsPrompt(contents) : contents;
+    return [[result, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
+
+/**
+ * Concatenate files under `## path` headers with fenced contents
+ * The fence is made longer than any backtick run in the file so it cannot be closed early.
+ */
+export function formatFilesAsPrompt(contents: Record<string, string>): string {
+  return Object.entries(contents).map(([file, content]) => {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const language = path.extname(file).slice(1);
+    return `## ${file}\n\n${fence}${language}\n${content.replace(/\n$/, '')}\n${fence}\n`;
+  }).join('\n');
+}
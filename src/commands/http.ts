@@ -0,0 +1,250 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator, ContentTypeDecorator } from '../decorators.js';
+import { TOKEN_PATTERN } from '../template-engine.js';
+
+/**
+ * Request passed to a FetchFunction
+ */
+export interface HttpRequestInit {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal: AbortSignal;
+}
+
+/**
+ * The parts of a fetch Response HttpCommand uses
+ */
+export interface HttpResponseLike {
+  status: number;
+  headers: { forEach(callback: (value: string, name: string) => void): void };
+  text(): Promise<string>;
+}
+
+/**
+ * A fetch implementation (globalThis.fetch by default; tests can pass a stand-in)
+ */
+export type FetchFunction = (url: string, init: HttpRequestInit) => Promise<HttpResponseLike>;
+
+/**
+ * Options for HttpCommand
+ */
+export interface HttpOptions {
+  /** HTTP method (default GET, or POST when a body is given) */
+  method?: string;
+  /** Request headers; values may contain {{token}} placeholders */
+  headers?: Record<string, string>;
+  /** Reference whose value is sent as the request body */
+  body?: StringRef;
+  /** Time limit per attempt in milliseconds (default 30000) */
+  timeout?: number;
+  /** Extra attempts after a network error, timeout, 429 or 5xx response (default 0) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each further retry (default 1000) */
+  retryDelay?: number;
+  /** Throw when the final response status is not 2xx (default false) */
+  failOnError?: boolean;
+  /** Token names for the status, headers and body outputs */
+  tokens?: { status?: string; headers?: string; body?: string };
+  /** fetch implementation (default globalThis.fetch) */
+  fetch?: FetchFunction;
+}
+
+/** Headers whose values are hidden in dry-run output */
+const SECRET_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key'];
+
+/**
+ * Captured result of an HTTP request
+ */
+export interface HttpResult {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * HttpCommand - Calls an HTTP endpoint and stores the status, headers and body
+ *
+ * The URL and header values may contain {{token}} placeholders, resolved from the
+ * flow's tokens. Values inserted into the URL are percent-encoded, except a
+ * placeholder at the very start, which may hold a base URL. A JSON body gets a
+ * `content-type: application/json` header unless one is given.
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried `retries` times with
+ * exponential backoff. Like ExecCommand, a non-2xx status is returned, not thrown,
+ * unless `failOnError` is set. Outputs: status (text), headers (JSON, lower-case
+ * names) and body (text, with the response's MIME type). In dry-run mode nothing is
+ * sent: the status is 200 and the body describes the request, with credentials and
+ * query values hidden.
+ *
+ * Usage in workflow:
+ *   const summary = await flow.run(new SetCommand(JSON.stringify({ text: 'Build passed' })));
+ *   await flow.run(new HttpCommand('{{webhook}}/builds/{{build-id}}', {
+ *     body: summary[0],
+ *     headers: { authorization: 'Bearer {{api-token}}' },
+ *     retries: 2,
+ *     failOnError: true,
+ *   }));
+ */
+export class HttpCommand implements ICommand {
+  private url: string;
+  private options: HttpOptions;
+
+  /** Result of the last execution */
+  public result?: HttpResult;
+
+  /** Number of attempts made by the last execution */
+  public attempts = 0;
+
+  /**
+   * Create a new HttpCommand
+   * @param url - Request URL; may contain {{token}} placeholders
+   * @param options - Method, headers, body, timeout, retries, output tokens and fetch implementation
+   */
+  constructor(url: string, options: HttpOptions = {}) {
+    this.url = url;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const url = await interpolate(this.url, context, true);
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.options.headers || {})) {
+      headers[name.toLowerCase()] = await interpolate(value, context, false);
+    }
+
+    let body: string | undefined;
+    if (this.options.body) {
+      body = await context.get(this.options.body);
+      if (body === undefined) {
+        throw new Error(`Body reference not found: ${this.options.body.token || this.options.body.id}`);
+      }
+      if (!headers['content-type'] && this.options.body.contentType === 'json') {
+        headers['content-type'] = 'application/json';
+      }
+    }
+
+    const method = (this.options.method || (body !== undefined ? 'POST' : 'GET')).toUpperCase();
+    this.result = context.config?.dryRun
+      ? { status: 200, headers: {}, body: describeRequest(method, url, headers, body) }
+      : await this.send(url, { method, headers, body });
+
+    if (this.options.failOnError && (this.result.status < 200 || this.result.status >= 300)) {
+      throw new Error(`${method} ${url} failed with status ${this.result.status}: ${this.result.body.slice(0, 200)}`);
+    }
+
+    const tokens = this.options.tokens || {};
+    const decorate = (token?: string): IRefDecorator[] => token ? [new TokenDecorator(token)] : [];
+    const mimeType = this.result.headers['content-type']?.split(';')[0].trim();
+
+    return [
+      [String(this.result.status), decorate(tokens.status)],
+      [this.result.headers, decorate(tokens.headers)],
+      [this.result.body, [
+        ...(mimeType ? [new ContentTypeDecorator('text', mimeType)] : []),
+        ...decorate(tokens.body),
+      ]],
+    ];
+  }
+
+  /**
+   * Send the request, retrying transient failures with exponential backoff
+   */
+  private async send(url: string, request: Omit<HttpRequestInit, 'signal'>): Promise<HttpResult> {
+    const fetchFunction: FetchFunction = this.options.fetch ?? ((input, init) => fetch(input, init));
+    const maxAttempts = (this.options.retries ?? 0) + 1;
+    const timeout = this.options.timeout ?? 30000;
+    let delay = this.options.retryDelay ?? 1000;
+
+    for (this.attempts = 1; ; this.attempts++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        const response = await fetchFunction(url, { ...request, signal: controller.signal });
+        const headers: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          headers[name.toLowerCase()] = value;
+        });
+        const result = { status: response.status, headers, body: await response.text() };
+
+        const transient = result.status === 429 || result.status >= 500;
+        if (!transient || this.attempts >= maxAttempts) {
+          return result;
+        }
+      } catch (error: any) {
+        const message = controller.signal.aborted ? `timed out after ${timeout}ms` : error.message;
+        if (this.attempts >= maxAttempts) {
+          throw new Error(`${request.method} ${url} failed after ${this.attempts} attempt(s): ${message}`);
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+}
+
+/**
+ * Describe a request for dry-run output, hiding credential header values
+ */
+function describeRequest(method: string, url: string, headers: Record<string, string>, body?: string): string {
+  const lines = [`[DRY-RUN] Would send: ${method} ${redactUrl(url)}`];
+  for (const [name, value] of Object.entries(headers)) {
+    lines.push(`${name}: ${SECRET_HEADERS.includes(name) ? '***' : value}`);
+  }
+  if (body !== undefined) {
+    lines.push('', body);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Hide the password and query parameter values of a URL, which often carry tokens
+ */
+function redactUrl(url: string): string {
+  const redacted = url.replace(/^([a-z][a-z0-9+.-]*:\/\/[^/?#@:]*:)[^/?#@]*@/i, '$1***@');
+  const queryStart = redacted.indexOf('?');
+  if (queryStart === -1) {
+    return redacted;
+  }
+
+  const hashStart = redacted.indexOf('#', queryStart);
+  const queryEnd = hashStart === -1 ? redacted.length : hashStart;
+  const query = redacted.slice(queryStart + 1, queryEnd)
+    .split('&')
+    .map(param => (param.includes('=') ? `${param.slice(0, param.indexOf('='))}=***` : param))
+    .join('&');
+  return `${redacted.slice(0, queryStart + 1)}${query}${redacted.slice(queryEnd)}`;
+}
+
+/**
+ * Replace {{token}} placeholders with token values from the flow
+ * @param encode - Percent-encode values, except one at the start of the string (a base URL)
+ * @throws Error if a token is not defined
+ */
+async function interpolate(text: string, context: IFlow, encode: boolean): Promise<string> {
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const ref = 'Tokens' in context && context.Tokens instanceof Map ? context.Tokens.get(match[1]) : undefined;
+    const value = ref ? await context.get(ref) : undefined;
+    if (value === undefined) {
+      throw new Error(`Unknown token in HTTP request: {{${match[1]}}}`);
+    }
+
+    const index = match.index!;
+    result += text.slice(lastIndex, index) + (encode && index > 0 ? encodeURIComponent(value) : value);
+    lastIndex = index + match[0].length;
+  }
+
+  return result + text.slice(lastIndex);
+}
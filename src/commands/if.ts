@@ -0,0 +1,82 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+
+/**
+ * Predicate evaluated against the text value of a StringRef
+ * A RegExp matches when it tests true against the value
+ */
+export type RefPredicate = RegExp | ((value: string) => boolean | Promise<boolean>);
+
+/**
+ * Evaluate a predicate against a value
+ */
+export async function evaluatePredicate(predicate: RefPredicate, value: string): Promise<boolean> {
+  if (predicate instanceof RegExp) {
+    // Reset lastIndex so global/sticky patterns evaluate consistently
+    predicate.lastIndex = 0;
+    return predicate.test(value);
+  }
+  return await predicate(value);
+}
+
+/**
+ * IfCommand - Runs one of two command lists depending on a predicate over a StringRef
+ * 
+ * Child commands are executed through the flow, so their outputs are stored and
+ * tokenized as usual. The command stores a JSON summary of the branch taken and the
+ * child refs it produced; the child refs are also available on `childRefs`.
+ * 
+ * Usage in workflow:
+ *   const status = await flow.run(new ReadCommand('status.txt'));
+ *   await flow.run(new IfCommand(
+ *     status[0],
+ *     /FAILED/,
+ *     [new SetCommand('Build failed', 'summary')],
+ *     [new SetCommand('Build passed', 'summary')]
+ *   ));
+ */
+export class IfCommand implements ICommand {
+  private conditionRef: StringRef;
+  private predicate: RefPredicate;
+  private thenCommands: ICommand[];
+  private elseCommands: ICommand[];
+
+  /** Refs produced by the branch that ran (populated after execution) */
+  public childRefs: StringRef[] = [];
+
+  /**
+   * Create a new IfCommand
+   * @param conditionRef - Reference whose value the predicate is evaluated against
+   * @param predicate - RegExp or function deciding which branch runs
+   * @param thenCommands - Commands run when the predicate is true
+   * @param elseCommands - Commands run when the predicate is false (optional)
+   */
+  constructor(conditionRef: StringRef, predicate: RefPredicate, thenCommands: ICommand[], elseCommands: ICommand[] = []) {
+    this.conditionRef = conditionRef;
+    this.predicate = predicate;
+    this.thenCommands = thenCommands;
+    this.elseCommands = elseCommands;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const value = await context.get(this.conditionRef);
+    
+    if (value === undefined) {
+      throw new Error(`Condition reference not found: ${this.conditionRef.token || this.conditionRef.id}`);
+    }
+
+    const matched = await evaluatePredicate(this.predicate, value);
+    const branch = matched ? this.thenCommands : this.elseCommands;
+
+    // Run the selected branch through the flow
+    this.childRefs = [];
+    for (const command of branch) {
+      this.childRefs.push(...await context.run(command));
+    }
+
+    return [[{ branch: matched ? 'then' : 'else', refs: this.childRefs }, []]];
+  }
+}
@@ -5,6 +5,10 @@ export { ReplaceCommand } from './replace.js';
 // File I/O commands
 export { ReadCommand } from './read.js';
 export { WriteCommand } from './write.js';
+export { GlobReadCommand } from './glob-read.js';
+export { WriteManyCommand } from './write-many.js';
+export { DiffCommand } from './diff.js';
+export { ApplyPatchCommand } from './apply-patch.js';
 export { PromptCommand } from './prompt.js';
 
 // Template and transformation commands
@@ -13,6 +17,36 @@ export { MatchCommand } from './match.js';
 export { TextTransformCommand } from './text-transform.js';
 export { JsonTransformCommand } from './json-transform.js';
 
+// Structured data commands
+export { JsonQueryCommand } from './json-query.js';
+export { CsvParseCommand } from './csv-parse.js';
+export { CsvWriteCommand } from './csv-write.js';
+export { YamlParseCommand } from './yaml-parse.js';
+export { YamlStringifyCommand } from './yaml-stringify.js';
+
+// Agent response parsing commands
+export { ExtractCodeBlocksCommand } from './extract-code-blocks.js';
+export { ParseJsonResponseCommand } from './parse-json-response.js';
+
+// Process commands
+export { ExecCommand } from './exec.js';
+export { ShellCommand } from './shell.js';
+export { PowerShellScriptCommand } from './powershell.js';
+
+// Network commands
+export { HttpCommand } from './http.js';
+
+// Control flow commands
+export { IfCommand } from './if.js';
+export { ForEachCommand } from './for-each.js';
+export { WhileCommand } from './while.js';
+export { ParallelCommand } from './parallel.js';
+
+// Resilience wrappers
+export { RetryCommand } from './retry.js';
+export { TimeoutCommand } from './timeout.js';
+export { FallbackCommand } from './fallback.js';
+
 // Utility commands
 export { JoinCommand } from './join.js';
 export { QuestionCommand } from './question.js';
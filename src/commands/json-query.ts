@@ -0,0 +1,63 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
+import { TokenDecorator } from '../decorators.js';
+import { queryJson } from '../json-query.js';
+
+/**
+ * Options for JsonQueryCommand
+ */
+export interface JsonQueryCommandOptions {
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * JsonQueryCommand - Extracts values from JSON content with a JSONPath expression
+ * 
+ * Unlike JsonTransformCommand, the query is a plain string, so it can come from the
+ * CLI or a pipeline file. Paths made only of properties and indexes store a single
+ * value; wildcards, slices, filters and `..` store an array of matches. String results
+ * are stored as text and everything else as JSON, ready for TemplateCommand.
+ * See json-query.ts for the supported syntax.
+ * 
+ * Usage in workflow:
+ *   const answer = await flow.run(new SetCommand('{"issues": [{"title": "A", "state": "open"}]}'));
+ *   const titles = await flow.run(new JsonQueryCommand(answer[0], "$.issues[?(@.state == 'open')].title", { token: 'open-titles' }));
+ */
+export class JsonQueryCommand implements ICommand {
+  private sourceRef: StringRef;
+  private expression: string;
+  private options: JsonQueryCommandOptions;
+
+  /**
+   * Create a new JsonQueryCommand
+   * @param sourceRef - Reference to the JSON content to query
+   * @param expression - JSONPath expression, e.g. `$.items[0].name` or `$..id`
+   * @param options - An optional token
+   */
+  constructor(sourceRef: StringRef, expression: string, options: JsonQueryCommandOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.expression = expression;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    // Throws if the content is not valid JSON
+    const data = await readJson(context, this.sourceRef);
+
+    if (data === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    const result = queryJson(data, this.expression);
+    if (result === undefined) {
+      throw new Error(`No value at JSONPath ${this.expression} in reference: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    return [[result, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
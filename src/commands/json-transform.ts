@@ -1,11 +1,12 @@
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
 
 /**
  * JsonTransformCommand - Transforms JSON content using a function
  * 
  * This command parses JSON from a StringRef, applies a transformation function,
- * and returns the result. If the result is a string, it's returned as-is.
- * Otherwise, it's JSON-serialized.
+ * and returns the result. If the result is a string, it's stored as text.
+ * Otherwise, it's stored as a JSON-typed ref readable with flow.getJson().
  * 
  * Usage in workflow:
  *   const jsonRef = await flow.run(new SetCommand('{"name": "John", "age": 30}'));
@@ -30,28 +31,16 @@ export class JsonTransformCommand implements ICommand {
     args: any[],
     cardBuilder?: ICardBuilder
   ): Promise<[any, IRefDecorator[]][]> {
-    // Get the content from the workflow context
-    const content = await context.get(this.contentRef);
+    // Get the parsed content from the workflow context (throws if not valid JSON)
+    const parsedContent = await readJson(context, this.contentRef);
     
-    if (content === undefined) {
+    if (parsedContent === undefined) {
       throw new Error(`Content reference not found: ${this.contentRef.token || this.contentRef.id}`);
     }
 
-    // Parse JSON
-    let parsedContent: any;
-    try {
-      parsedContent = JSON.parse(content);
-    } catch (error) {
-      throw new Error(`Failed to parse JSON: ${error instanceof Error ? error.message : String(error)}`);
-    }
-
     // Apply the transformation
-    const result = this.transformFn(parsedContent);
-
-    // If result is a string, return as-is; otherwise, JSON-serialize
-    const finalResult = typeof result === 'string' 
-      ? result 
-      : JSON.stringify(result, null, 2);
+    // Strings are stored as text; any other result is stored as a typed JSON value
+    const finalResult = this.transformFn(parsedContent);
 
     // Return the transformed content
     return [[finalResult, []]];
@@ -1,31 +1,107 @@
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
 import { TokenDecorator } from '../decorators.js';
 
+/**
+ * Options for MatchCommand
+ */
+export interface MatchOptions {
+  /** Return every match as one JSON array instead of assigning the first match's groups */
+  global?: boolean;
+  /** Store empty values (or an empty array) instead of throwing when nothing matches */
+  optional?: boolean;
+  /** Token for the JSON array produced in global mode */
+  token?: string;
+}
+
+/**
+ * One match in the JSON array produced in global mode
+ */
+export interface MatchResult {
+  /** Full matched text */
+  match: string;
+  /** Positional capture groups (unmatched groups are null) */
+  captures: (string | null)[];
+  /** Named capture groups (unmatched groups are null) */
+  groups: Record<string, string | null>;
+  /** Token, file name or id of the reference the match came from */
+  source: string;
+  /** 1-based line of the match start */
+  line: number;
+}
+
+/**
+ * Names of a pattern's capture groups, by group number - 1 (undefined for unnamed groups)
+ */
+export function getCaptureGroupNames(source: string): (string | undefined)[] {
+  const names: (string | undefined)[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      if (source[i + 1] !== '?') {
+        names.push(undefined);
+      } else {
+        const named = source.slice(i).match(/^\(\?<([A-Za-z_$][\w$]*)>/);
+        if (named) {
+          names.push(named[1]);
+        }
+      }
+    }
+  }
+
+  return names;
+}
+
 /**
  * MatchCommand - Matches a regex pattern and assigns captures to tokens
- * 
- * This command matches a regex pattern against a StringRef and assigns the captured
- * groups to the specified tokens in order.
- * 
+ *
+ * By default the first match is used: captured groups are assigned to the given
+ * tokens in order, and named groups (?<name>...) without a positional token are
+ * assigned to a token of the same name. Several refs (e.g. multiple log files) can
+ * be scanned; the first match across them wins.
+ *
+ * In global mode every match in every ref is collected into one JSON array of
+ * MatchResult objects, ready for JsonQueryCommand, ForEachCommand or templates.
+ * In optional mode a miss stores empty strings (or an empty array) instead of throwing.
+ *
  * Usage in workflow:
  *   const text = await flow.run(new SetCommand('John Doe, age 30'));
  *   await flow.run(new MatchCommand(text[0], /(\w+) (\w+), age (\d+)/, ['firstName', 'lastName', 'age']));
+ *   await flow.run(new MatchCommand(text[0], /age (?<age>\d+)/));
+ *
+ *   const logs = await flow.run(new ReadCommand('build.log'));
+ *   await flow.run(new MatchCommand(logs, /error (?<code>E\d+)/, [], { global: true, optional: true, token: 'errors' }));
  */
 export class MatchCommand implements ICommand {
-  private contentRef: StringRef;
+  private contentRefs: StringRef[];
   private regexPattern: string | RegExp;
   private tokens: string[];
+  private options: MatchOptions;
 
   /**
    * Create a new MatchCommand
-   * @param contentRef - Reference to the content to match against
+   * @param contentRef - Reference (or references) to the content to match against
    * @param regexPattern - Regular expression pattern (string or RegExp)
    * @param tokens - Array of token names to assign to captured groups
+   * @param options - global, optional and the token for global results
    */
-  constructor(contentRef: StringRef, regexPattern: string | RegExp, tokens: string[]) {
-    this.contentRef = contentRef;
+  constructor(
+    contentRef: StringRef | StringRef[],
+    regexPattern: string | RegExp,
+    tokens: string[] = [],
+    options: MatchOptions = {}
+  ) {
+    this.contentRefs = Array.isArray(contentRef) ? contentRef : [contentRef];
     this.regexPattern = regexPattern;
     this.tokens = tokens;
+    this.options = options;
   }
 
   async execute(
@@ -34,37 +110,82 @@ export class MatchCommand implements ICommand {
     cardBuilder?: ICardBuilder
   ): Promise<[any, IRefDecorator[]][]> {
     // Get the content from the workflow context
-    const content = await context.get(this.contentRef);
-    
-    if (content === undefined) {
-      throw new Error(`Content reference not found: ${this.contentRef.token || this.contentRef.id}`);
+    const contents: { ref: StringRef; content: string }[] = [];
+    for (const ref of this.contentRefs) {
+      const content = await context.get(ref);
+      if (content === undefined) {
+        throw new Error(`Content reference not found: ${ref.token || ref.id}`);
+      }
+      contents.push({ ref, content });
     }
 
     // Convert string pattern to RegExp if needed
-    const regex = typeof this.regexPattern === 'string' 
-      ? new RegExp(this.regexPattern) 
+    const regex = typeof this.regexPattern === 'string'
+      ? new RegExp(this.regexPattern)
       : this.regexPattern;
 
-    // Match the regex
-    const match = content.match(regex);
-    
-    if (!match) {
+    if (this.options.global) {
+      return this.matchAll(contents, regex);
+    }
+
+    // Match the regex against each ref until one matches
+    let match: RegExpMatchArray | null = null;
+    for (const { content } of contents) {
+      match = content.match(new RegExp(regex.source, regex.flags.replace('g', '')));
+      if (match) break;
+    }
+
+    if (!match && !this.options.optional) {
       throw new Error(`No match found for pattern: ${regex}`);
     }
 
-    // Assign captured groups to tokens
+    // Assign captured groups to tokens: positional tokens first, then group names
     const results: [any, IRefDecorator[]][] = [];
-    
-    // Start from index 1 to skip the full match (index 0)
-    for (let i = 1; i < match.length && i - 1 < this.tokens.length; i++) {
-      const value = match[i];
-      const token = this.tokens[i - 1];
-      
-      if (value !== undefined && token) {
+    const groupNames = getCaptureGroupNames(regex.source);
+
+    for (let i = 0; i < groupNames.length; i++) {
+      const token = this.tokens[i] || groupNames[i];
+      const value = match?.[i + 1];
+
+      if (!token) continue;
+      if (value !== undefined) {
         results.push([value, [new TokenDecorator(token)]]);
+      } else if (this.options.optional) {
+        results.push(['', [new TokenDecorator(token)]]);
       }
     }
 
     return results;
   }
+
+  /**
+   * Collect every match in every ref into one JSON array
+   */
+  private matchAll(contents: { ref: StringRef; content: string }[], regex: RegExp): [any, IRefDecorator[]][] {
+    const flags = regex.flags.includes('g') ? regex.flags : regex.flags + 'g';
+    const matches: MatchResult[] = [];
+
+    for (const { ref, content } of contents) {
+      for (const match of content.matchAll(new RegExp(regex.source, flags))) {
+        const groups: Record<string, string | null> = {};
+        for (const [name, value] of Object.entries(match.groups || {})) {
+          groups[name] = value ?? null;
+        }
+        matches.push({
+          match: match[0],
+          captures: match.slice(1).map(value => value ?? null),
+          groups,
+          source: ref.token || ref.fileName || ref.id,
+          line: content.slice(0, match.index).split('\n').length,
+        });
+      }
+    }
+
+    if (matches.length === 0 && !this.options.optional) {
+      throw new Error(`No match found for pattern: ${regex}`);
+    }
+
+    const token = this.options.token || this.tokens[0];
+    return [[matches, token ? [new TokenDecorator(token)] : []]];
+  }
 }
@@ -0,0 +1,44 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { runAll } from '../run-all.js';
+
+/**
+ * ParallelCommand - Runs independent commands concurrently through the flow
+ * 
+ * Child commands are executed with IFlow.runAll, so their outputs are stored and
+ * tokenized as usual. Results are collected in command order; if any child fails,
+ * the remaining children still finish and an AggregateError lists every failure.
+ * The command stores a JSON summary of the child refs; they are also available on `results`.
+ * 
+ * Usage in workflow:
+ *   const files = ['a.ts', 'b.ts', 'c.ts'];
+ *   await flow.run(new ParallelCommand(
+ *     files.map(file => new AgentCommand(config, [prompt, file])),
+ *     { concurrency: 3 }
+ *   ));
+ */
+export class ParallelCommand implements ICommand {
+  private commands: ICommand[];
+  private concurrency?: number;
+
+  /** Refs produced per child command, in command order (populated after execution) */
+  public results: StringRef[][] = [];
+
+  /**
+   * Create a new ParallelCommand
+   * @param commands - Independent commands to run
+   * @param options - concurrency: maximum commands in flight (default: config.concurrency or 4)
+   */
+  constructor(commands: ICommand[], options?: { concurrency?: number }) {
+    this.commands = commands;
+    this.concurrency = options?.concurrency;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    this.results = await runAll(context, this.commands, { concurrency: this.concurrency });
+    return [[this.results, []]];
+  }
+}
@@ -0,0 +1,130 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+import { parseCodeBlocks } from '../code-blocks.js';
+import { validateJsonSchema, JsonSchema } from '../json-schema.js';
+
+/**
+ * Options for ParseJsonResponseCommand
+ */
+export interface ParseJsonResponseOptions {
+  /** JSON Schema the value must satisfy (see json-schema.ts for the supported keywords) */
+  schema?: JsonSchema;
+  /** Token to reference the parsed value */
+  token?: string;
+}
+
+/**
+ * Find the first JSON object in free-form text
+ * Fenced ```json blocks (or unlabeled blocks) are tried first, then the first balanced
+ * `{...}` that parses. A fenced block may also hold a top-level array.
+ * @returns The parsed value, or undefined if the text contains no JSON object
+ */
+export function findJsonObject(text: string): any {
+  for (const block of parseCodeBlocks(text)) {
+    if (block.language !== 'json' && block.language !== '') continue;
+    try {
+      const value = JSON.parse(block.content);
+      if (value !== null && typeof value === 'object') {
+        return value;
+      }
+    } catch {
+      // Not JSON - keep looking
+    }
+  }
+
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    const end = findClosingBrace(text, start);
+    if (end === -1) continue;
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      // Braces in prose or invalid JSON - try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Index of the brace closing the object that opens at `start`, skipping braces in strings
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * ParseJsonResponseCommand - Extracts and validates the JSON object in an agent response
+ *
+ * Agents wrap JSON in prose or markdown fences; this command finds the first JSON
+ * object, checks it against an optional schema and stores it as JSON, so later
+ * commands (JsonQueryCommand, TemplateCommand) work with structured data instead of
+ * one opaque string. Every schema violation is listed in the error message.
+ *
+ * Usage in workflow:
+ *   const answer = await flow.run(agentCommand);
+ *   const review = await flow.run(new ParseJsonResponseCommand(answer[0], {
+ *     schema: { type: 'object', required: ['verdict'], properties: { verdict: { enum: ['approve', 'reject'] } } },
+ *     token: 'review',
+ *   }));
+ */
+export class ParseJsonResponseCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: ParseJsonResponseOptions;
+
+  /**
+   * Create a new ParseJsonResponseCommand
+   * @param sourceRef - Reference to the response text
+   * @param options - Optional schema and token
+   */
+  constructor(sourceRef: StringRef, options: ParseJsonResponseOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const content = await context.get(this.sourceRef);
+    const refName = this.sourceRef.token || this.sourceRef.id;
+
+    if (content === undefined) {
+      throw new Error(`Source reference not found: ${refName}`);
+    }
+
+    const value = findJsonObject(content);
+    if (value === undefined) {
+      throw new Error(`No JSON object found in reference: ${refName}`);
+    }
+
+    if (this.options.schema) {
+      const errors = validateJsonSchema(value, this.options.schema);
+      if (errors.length > 0) {
+        throw new Error(`JSON in reference ${refName} does not match the schema:\n  ${errors.join('\n  ')}`);
+      }
+    }
+
+    return [[value, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
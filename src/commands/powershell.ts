@@ -1,145 +1,157 @@
-import { spawn } from 'child_process';
-import {  ExecutionContext, ReferenceHandle, IOutputSynk, IFlow } from '../types.js';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
 import { TokenDecorator } from '../decorators.js';
-import { TaskHandler } from '../task-handler.js';
-import { MessageCard } from '../cards/MessageCard.js';
+import { runProcess } from './exec.js';
+import { TOKEN_PATTERN } from '../template-engine.js';
+
+/** Prefix of the environment variables that carry variable values into PowerShell */
+const VALUE_ENV_PREFIX = 'OT_PS_VALUE_';
 
 /**
- * PowerShell command - executes PowerShell scripts
+ * Options for PowerShellScriptCommand
  */
-export default class PowerShellCommand extends TaskHandler {
-  name = 'powershell';
-  description = 'Execute a PowerShell script';
-  examples = [
-    'open-tasks powershell "Get-Date"',
-    'open-tasks powershell "Get-Content {{file}}" --ref file',
-  ];
-
-  protected async executeCommand(
-    config: Record<string, any>,
-    args: string[],
-    workflowContext: IFlow,
-    outputBuilder: IOutputSynk
-  ): Promise<ReferenceHandle> {
-    if (args.length === 0) {
-      throw new Error('PowerShell command requires a script argument');
-    }
+export interface PowerShellOptions {
+  /** Values exposed to the script as PowerShell variables (`$name`) */
+  params?: Record<string, string | StringRef>;
+  /** Working directory (default: the flow's cwd) */
+  cwd?: string;
+  /** Time limit in milliseconds; PowerShell is killed when exceeded (default 30000) */
+  timeout?: number;
+  /** Token for the script output */
+  token?: string;
+}
 
-    let script = args[0];
-    const token = args.find((arg, i) => args[i - 1] === '--token');
+/**
+ * Get the PowerShell executable for the current platform
+ */
+export function getPowerShellExecutable(): string {
+  return process.platform === 'win32' ? 'powershell.exe' : 'pwsh';
+}
 
-    // Execute PowerShell script
-    outputBuilder.write('Executing PowerShell script...');
-    let exitCode = 0;
-    let result: string;
-    let executionError: string | undefined;
+/**
+ * Turn a script with {{token}} references and named params into a script that reads
+ * every value from a PowerShell variable
+ *
+ * `{{file}}` becomes `${file}`. Values travel through environment variables and are
+ * assigned in a preamble, so they are never parsed as PowerShell code.
+ * @param values - Variable name -> value, covering params and every referenced token
+ * @returns The script to run and the environment variables carrying the values
+ */
+export function preparePowerShellScript(
+  script: string,
+  values: Record<string, string>
+): { script: string; env: Record<string, string> } {
+  const env: Record<string, string> = {};
+  const preamble: string[] = [];
+
+  Object.entries(values).forEach(([name, value], i) => {
+    const envName = `${VALUE_ENV_PREFIX}${i}`;
+    env[envName] = value;
+    // Braced names allow tokens such as diff-exit-code
+    preamble.push(`\${${name.replace(/[{}`]/g, '')}} = $env:${envName}`);
+  });
+
+  const body = script.replace(TOKEN_PATTERN, (_, token: string) => `\${${token.replace(/[{}`]/g, '')}}`);
+  return { script: [...preamble, body].join('\n'), env };
+}
 
-    try {
-      result = await this.executePowerShell(script);
-    } catch (error) {
-      exitCode = 1;
-      executionError = error instanceof Error ? error.message : String(error);
-      result = executionError;
-    }
+/**
+ * PowerShellScriptCommand - Runs a PowerShell script with token and parameter variables
+ * 
+ * `{{token}}` references are resolved against the flow's tokens and, like `params`,
+ * exposed to the script as PowerShell variables rather than spliced into the script
+ * text, so values containing quotes or `;` cannot change what the script does.
+ * Requires `pwsh` (macOS/Linux) or `powershell.exe` (Windows). In dry-run mode the
+ * script is described instead of run.
+ * 
+ * Usage in workflow:
+ *   const readme = await flow.run(new PowerShellScriptCommand(
+ *     'Get-Content {{file}} | Select-Object -First $count',
+ *     { params: { count: '10' }, timeout: 60000 }
+ *   ));
+ */
+export class PowerShellScriptCommand implements ICommand {
+  private script: string;
+  private options: PowerShellOptions;
+
+  /**
+   * Create a new PowerShellScriptCommand
+   * @param script - PowerShell script; may reference tokens with {{token}}
+   * @param options - params, cwd, timeout and output token
+   */
+  constructor(script: string, options: PowerShellOptions = {}) {
+    this.script = script;
+    this.options = options;
+  }
 
-    // Store the result
-    const decorators = token ? [new TokenDecorator(token)] : [];
-    const StringRef = await workflowContext.set(result, decorators);
-
-    const outputFile = StringRef.fileName
-      ? `${workflowContext.cwd}/${config.outputDir}/${StringRef.fileName}`
-      : undefined;
-
-    const ref: ReferenceHandle = {
-      id: StringRef.id,
-      content: result,
-      token: token,
-      timestamp: new Date(),
-      outputFile: outputFile
-    };
-
-    // Add visual card
-    const cardStyle = exitCode === 0 ? 'success' : 'error';
-    const cardTitle = exitCode === 0 ? '⚡ PowerShell Executed' : '❌ PowerShell Failed';
-    
-    const details = [
-      `Script: ${script.length > 100 ? script.substring(0, 100) + '...' : script}`,
-      `Exit Code: ${exitCode}`,
-      `Output Length: ${result.length} characters`,
-    ];
-
-    if (token) {
-      details.push(`Token: ${token}`);
-    }
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const values: Record<string, string> = {};
 
-    if (outputFile) {
-      details.push(`Output File: ${outputFile}`);
+    for (const [name, value] of Object.entries(this.options.params || {})) {
+      values[name] = typeof value === 'string' ? value : await this.getRefValue(context, value, name);
     }
 
-    if (executionError) {
-      details.push(`Error: ${executionError}`);
-    } else {
-      const preview = result.length > 200 ? result.substring(0, 200) + '...' : result;
-      details.push(`Output Preview: ${preview}`);
+    // Resolve {{token}} references against the flow's tokens
+    for (const match of this.script.matchAll(TOKEN_PATTERN)) {
+      const token = match[1];
+      if (token in values) {
+        continue;
+      }
+      const ref: StringRef | undefined = 'Tokens' in context && context.Tokens instanceof Map
+        ? context.Tokens.get(token)
+        : undefined;
+      if (!ref) {
+        throw new Error(`Unknown token in PowerShell script: {{${token}}}`);
+      }
+      values[token] = await this.getRefValue(context, ref, token);
     }
 
-    outputBuilder.write(new MessageCard(cardTitle, details.join('\n'), cardStyle));
-
-    return ref;
-  }
-
-  private async executePowerShell(script: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      // Determine if we're on Windows
-      const isWindows = process.platform === 'win32';
-      const command = isWindows ? 'powershell.exe' : 'pwsh';
-      const args = ['-NoProfile', '-NonInteractive', '-Command', script];
-
-      const child = spawn(command, args, {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-
-      let stdout = '';
-      let stderr = '';
+    const prepared = preparePowerShellScript(this.script, values);
+    const executable = getPowerShellExecutable();
+    const cwd = this.options.cwd || context.cwd;
+    const decorators: IRefDecorator[] = this.options.token ? [new TokenDecorator(this.options.token)] : [];
 
-      child.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      child.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
+    // In dry-run mode, describe the script instead of running it
+    if (context.config?.dryRun) {
+      return [[`[DRY-RUN] Would execute: ${executable} -NoProfile -NonInteractive -Command ${this.script} (cwd ${cwd})`, decorators]];
+    }
 
-      child.on('close', (code) => {
-        if (code !== 0) {
-          reject(
-            new Error(
-              `PowerShell exited with code ${code}\nStderr: ${stderr}`
-            )
-          );
-        } else {
-          resolve(stdout.trim());
-        }
+    let result;
+    try {
+      result = await runProcess(executable, ['-NoProfile', '-NonInteractive', '-Command', prepared.script], {
+        cwd,
+        env: prepared.env,
+        timeout: this.options.timeout ?? 30000,
       });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith('Process timed out')) {
+        throw new Error(`PowerShell execution timed out (${this.options.timeout ?? 30000}ms)`);
+      }
+      throw new Error(
+        `Failed to execute PowerShell: ${message}\n` +
+        `Make sure PowerShell is installed and available in PATH`
+      );
+    }
 
-      child.on('error', (error) => {
-        reject(
-          new Error(
-            `Failed to execute PowerShell: ${error.message}\n` +
-            `Make sure PowerShell is installed and available in PATH`
-          )
-        );
-      });
+    if (result.exitCode !== 0) {
+      throw new Error(`PowerShell exited with code ${result.exitCode}\nStderr: ${result.stderr}`);
+    }
 
-      // Set timeout
-      const timeout = setTimeout(() => {
-        child.kill();
-        reject(new Error('PowerShell execution timed out (30s)'));
-      }, 30000);
+    return [[result.stdout.trim(), decorators]];
+  }
 
-      child.on('close', () => {
-        clearTimeout(timeout);
-      });
-    });
+  /**
+   * Read a ref's value for use as a variable
+   */
+  private async getRefValue(context: IFlow, ref: StringRef, name: string): Promise<string> {
+    const value = await context.get(ref);
+    if (value === undefined) {
+      throw new Error(`Reference not found for PowerShell variable: ${name}`);
+    }
+    return value;
   }
 }
@@ -1,29 +1,106 @@
 import * as readline from 'readline';
+import { Writable } from 'stream';
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+
+/**
+ * Options for QuestionCommand
+ */
+export interface QuestionOptions {
+  /** Key used to look up a supplied answer (default: the prompt text) */
+  id?: string;
+  /** Answer used when the user enters nothing, or when running non-interactively */
+  default?: string | boolean;
+  /** Allowed answers, shown as a numbered list; the user may type the value or its number */
+  choices?: string[];
+  /** Ask a yes/no question; the answer is stored as 'true' or 'false' */
+  confirm?: boolean;
+  /** Do not echo what the user types (passwords, API keys) */
+  mask?: boolean;
+  /** Token to reference the answer */
+  token?: string;
+  /** Stream to read answers from (default process.stdin) */
+  input?: NodeJS.ReadableStream;
+  /** Stream to write the prompt to (default process.stdout) */
+  output?: NodeJS.WritableStream;
+}
+
+/** Prefix of environment variables that answer questions, e.g. OT_ANSWER_TASK_NAME */
+export const ANSWER_ENV_PREFIX = 'OT_ANSWER_';
+
+/**
+ * Name of the environment variable that answers a question id
+ * (upper-cased, with every run of other characters replaced by `_`)
+ */
+export function answerEnvName(id: string): string {
+  return ANSWER_ENV_PREFIX + id.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Fail fast in non-interactive mode, listing every question that has neither a supplied
+ * answer nor a default, so a task can check all its questions before doing any work
+ * @throws Error naming each unanswered question and how to answer it
+ */
+export async function assertAnswered(context: IFlow, questions: QuestionCommand[]): Promise<void> {
+  if (context.config?.nonInteractive !== true) {
+    return;
+  }
+
+  const missing: string[] = [];
+  for (const question of questions) {
+    const description = await question.describeMissingAnswer(context);
+    if (description !== undefined) {
+      missing.push(description);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Unanswered question(s) in non-interactive mode:\n  ${missing.join('\n  ')}`);
+  }
+}
+
+const YES_PATTERN = /^(y|yes|true|1)$/i;
+const NO_PATTERN = /^(n|no|false|0)$/i;
 
 /**
  * QuestionCommand - Prompts user for input and stores the response
- * 
+ *
  * This command displays a message (either directly or from a StringRef) and
  * reads a line from the command prompt, storing the response.
- * 
+ *
+ * Answers can be supplied ahead of time, keyed by the question's `id` (or its
+ * prompt text), so tasks run unattended. Supplied answers come from, in order:
+ * `--answer id=value` options and an `--answers <file>` JSON file (both in
+ * `config.answers`), then `OT_ANSWER_<ID>` environment variables. With
+ * `--non-interactive` (`config.nonInteractive`) an unanswered question uses its
+ * default, or fails without reading stdin; use assertAnswered to check several
+ * questions up front and report every missing answer at once.
+ *
  * Usage in workflow:
  *   // Direct message
  *   const response = await flow.run(new QuestionCommand('What is your name?'));
- *   
+ *
  *   // From StringRef
  *   const promptRef = await flow.run(new SetCommand('Enter your email:'));
  *   const email = await flow.run(new QuestionCommand(promptRef[0]));
+ *
+ *   // Select list, confirmation and masked input
+ *   await flow.run(new QuestionCommand('Agent:', { id: 'agent', choices: ['claude', 'gemini'], default: 'claude' }));
+ *   await flow.run(new QuestionCommand('Overwrite?', { id: 'overwrite', confirm: true, default: false }));
+ *   await flow.run(new QuestionCommand('API key:', { id: 'api-key', mask: true, token: 'api-key' }));
  */
 export class QuestionCommand implements ICommand {
   private prompt: string | StringRef;
+  private options: QuestionOptions;
 
   /**
    * Create a new QuestionCommand
    * @param prompt - Either a message string or a StringRef containing the prompt
+   * @param options - Answer id, default, choices, confirm and mask options, or a token name
    */
-  constructor(prompt: string | StringRef) {
+  constructor(prompt: string | StringRef, options: QuestionOptions | string = {}) {
     this.prompt = prompt;
+    this.options = typeof options === 'string' ? { token: options } : options;
   }
 
   async execute(
@@ -31,35 +108,226 @@ export class QuestionCommand implements ICommand {
     args: any[],
     cardBuilder?: ICardBuilder
   ): Promise<[any, IRefDecorator[]][]> {
-    let promptMessage: string;
+    const promptMessage = await this.resolvePrompt(context);
+    const config = context.config || {};
+    const id = this.options.id ?? promptMessage;
+    const defaultAnswer = this.options.default === undefined ? undefined : String(this.options.default);
 
-    // Determine if prompt is a string or StringRef
+    let answer = this.findSuppliedAnswer(id, config.answers);
+    if (answer === undefined) {
+      if (config.nonInteractive === true) {
+        if (defaultAnswer === undefined) {
+          throw new Error(`Unanswered question in non-interactive mode: ${this.describeQuestion(promptMessage, id)}`);
+        }
+        answer = defaultAnswer;
+      } else {
+        answer = await this.ask(promptMessage, defaultAnswer);
+      }
+    }
+
+    const decorators: IRefDecorator[] = this.options.token ? [new TokenDecorator(this.options.token)] : [];
+    return [[this.normalize(answer, id), decorators]];
+  }
+
+  /**
+   * Describe the question and how to answer it when it has neither a supplied answer nor a default
+   * @returns undefined when the question can be answered without prompting
+   */
+  async describeMissingAnswer(context: IFlow): Promise<string | undefined> {
+    if (this.options.default !== undefined) {
+      return undefined;
+    }
+    const promptMessage = await this.resolvePrompt(context);
+    const id = this.options.id ?? promptMessage;
+    return this.findSuppliedAnswer(id, context.config?.answers) === undefined
+      ? this.describeQuestion(promptMessage, id)
+      : undefined;
+  }
+
+  /**
+   * Get the prompt text, reading it from its StringRef when needed
+   */
+  private async resolvePrompt(context: IFlow): Promise<string> {
     if (typeof this.prompt === 'string') {
-      promptMessage = this.prompt;
-    } else {
-      // Get from StringRef
-      const content = await context.get(this.prompt);
-      if (content === undefined) {
-        throw new Error(`Prompt reference not found: ${this.prompt.token || this.prompt.id}`);
+      return this.prompt;
+    }
+    const content = await context.get(this.prompt);
+    if (content === undefined) {
+      throw new Error(`Prompt reference not found: ${this.prompt.token || this.prompt.id}`);
+    }
+    return content;
+  }
+
+  /**
+   * The prompt with a hint on how to supply its answer
+   */
+  private describeQuestion(promptMessage: string, id: string): string {
+    const hint = this.options.id
+      ? `--answer ${id}=<value> or ${answerEnvName(id)}`
+      : `--answer "${id}=<value>"`;
+    return `${promptMessage} (supply ${hint})`;
+  }
+
+  /**
+   * Look up an answer supplied through config.answers or the environment
+   */
+  private findSuppliedAnswer(id: string, answers?: Record<string, any>): string | undefined {
+    if (answers && Object.prototype.hasOwnProperty.call(answers, id)) {
+      return String(answers[id]);
+    }
+    return this.options.id ? process.env[answerEnvName(this.options.id)] : undefined;
+  }
+
+  /**
+   * Check an answer against the question's kind and convert it to its stored form
+   * @throws Error if the answer is not one of the choices or not yes/no
+   */
+  private normalize(answer: string, id: string): string {
+    const trimmed = answer.trim();
+
+    if (this.options.confirm) {
+      if (YES_PATTERN.test(trimmed)) return 'true';
+      if (NO_PATTERN.test(trimmed)) return 'false';
+      throw new Error(`Invalid answer for "${id}": expected yes or no, got "${answer}"`);
+    }
+
+    const choices = this.options.choices;
+    if (choices && choices.length > 0) {
+      const index = /^\d+$/.test(trimmed) ? Number(trimmed) - 1 : -1;
+      const choice = choices[index] ?? choices.find(value => value === trimmed);
+      if (choice === undefined) {
+        throw new Error(`Invalid answer for "${id}": "${answer}" is not one of ${choices.join(', ')}`);
       }
-      promptMessage = content;
+      return choice;
+    }
+
+    return answer;
+  }
+
+  /**
+   * Prompt on the terminal and read one line, repeating until the answer is valid
+   */
+  private async ask(promptMessage: string, defaultAnswer: string | undefined): Promise<string> {
+    const input = this.options.input ?? process.stdin;
+    const output = this.options.output ?? process.stdout;
+
+    let question = promptMessage;
+    if (this.options.confirm) {
+      question += YES_PATTERN.test(defaultAnswer ?? '') ? ' (Y/n)' : NO_PATTERN.test(defaultAnswer ?? '') ? ' (y/N)' : ' (y/n)';
+    } else if (defaultAnswer !== undefined && !this.options.mask) {
+      question += ` [${defaultAnswer}]`;
     }
+    if (this.options.choices && this.options.choices.length > 0) {
+      question += '\n' + this.options.choices.map((choice, i) => `  ${i + 1}) ${choice}`).join('\n') + '\n>';
+    }
+
+    const reader = LineReader.for(input);
 
-    // Create readline interface
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
+    for (;;) {
+      output.write(question + ' ');
+      const masked = this.options.mask === true;
+      const line = await reader.next(output, masked);
+      if (masked) {
+        output.write('\n');
+      }
+      if (line === undefined) {
+        throw new Error(`Input closed before question was answered: ${promptMessage}`);
+      }
+
+      const answer = line.trim() === '' && defaultAnswer !== undefined ? defaultAnswer : line;
+      try {
+        this.normalize(answer, promptMessage);
+        return answer;
+      } catch (error: any) {
+        output.write(`${error.message}\n`);
+      }
+    }
+  }
+}
+
+/**
+ * Reads answers line by line from one input stream, shared by every question asking on it
+ * Lines that arrive together (piped input holding several answers) are queued for the
+ * following questions instead of being lost when one question finishes. The stream is
+ * paused while no question is waiting.
+ */
+class LineReader {
+  private static readers = new WeakMap<NodeJS.ReadableStream, LineReader>();
+
+  private lines: string[] = [];
+  private waiting?: (line: string | undefined) => void;
+  private closed = false;
+  private rl: readline.Interface;
+  private output?: NodeJS.WritableStream;
+  private muted = false;
+
+  /**
+   * The reader for an input stream, created on first use
+   */
+  static for(input: NodeJS.ReadableStream): LineReader {
+    let reader = LineReader.readers.get(input);
+    if (!reader) {
+      reader = new LineReader(input);
+      LineReader.readers.set(input, reader);
+    }
+    return reader;
+  }
+
+  private constructor(input: NodeJS.ReadableStream) {
+    // Typed characters are echoed through this stream to the asking question's output,
+    // muted for masked input
+    const echo = new Writable({
+      write: (chunk, encoding, callback) => {
+        if (!this.muted) {
+          this.output?.write(chunk);
+        }
+        callback();
+      },
     });
 
-    // Prompt user and read response
-    const answer = await new Promise<string>((resolve) => {
-      rl.question(promptMessage + ' ', (answer) => {
-        rl.close();
-        resolve(answer);
-      });
+    this.rl = readline.createInterface({
+      input,
+      output: echo,
+      terminal: (input as NodeJS.ReadStream).isTTY === true,
     });
+    this.rl.on('line', line => {
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = undefined;
+        this.rl.pause();
+        resolve(line);
+      } else {
+        this.lines.push(line);
+      }
+    });
+    this.rl.on('close', () => {
+      this.closed = true;
+      this.waiting?.(undefined);
+      this.waiting = undefined;
+    });
+  }
+
+  /**
+   * The next line, or undefined once the input has ended
+   * @param output - Stream typed characters are echoed to
+   * @param muted - Do not echo (masked input)
+   */
+  next(output: NodeJS.WritableStream, muted: boolean): Promise<string | undefined> {
+    if (this.lines.length > 0) {
+      return Promise.resolve(this.lines.shift());
+    }
+    if (this.closed) {
+      return Promise.resolve(undefined);
+    }
 
-    // Return the user's response
-    return [[answer, []]];
+    this.output = output;
+    this.muted = muted;
+    return new Promise(resolve => {
+      this.waiting = line => {
+        this.muted = false;
+        resolve(line);
+      };
+      this.rl.resume();
+    });
   }
 }
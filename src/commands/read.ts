@@ -1,25 +1,31 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
-import { resolvePath } from '../utils.js';
+import { ContentTypeDecorator } from '../decorators.js';
+import { getMimeType, resolvePath } from '../utils.js';
 
 /**
  * ReadCommand - Reads a file and stores its content
  * 
  * This command reads content from a file and stores it in the workflow context.
+ * Binary files (images, archives) can be read as raw bytes and retrieved with flow.getBuffer().
  * 
  * Usage in workflow:
  *   const fileRef = await flow.run(new ReadCommand('data.txt'));
+ *   const imageRef = await flow.run(new ReadCommand('logo.png', { binary: true }));
  */
 export class ReadCommand implements ICommand {
   private fileName: string;
+  private binary: boolean;
 
   /**
    * Create a new ReadCommand
    * @param fileName - The name of the file to read
+   * @param options - Read options (binary: store raw bytes with a MIME type inferred from the extension)
    */
-  constructor(fileName: string) {
+  constructor(fileName: string, options?: { binary?: boolean }) {
     this.fileName = fileName;
+    this.binary = options?.binary || false;
   }
 
   async execute(
@@ -37,6 +43,12 @@ export class ReadCommand implements ICommand {
       throw new Error(`File not found: ${this.fileName}`);
     }
 
+    if (this.binary) {
+      // Read raw bytes and record the MIME type
+      const bytes = await fs.readFile(absolutePath);
+      return [[bytes, [new ContentTypeDecorator('binary', getMimeType(absolutePath))]]];
+    }
+
     // Read file content
     const content = await fs.readFile(absolutePath, 'utf-8');
 
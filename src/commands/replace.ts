@@ -1,27 +1,59 @@
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { escapeRegExp } from '../utils.js';
+import { findPlaceholders, formatUnresolvedPlaceholders } from '../template-engine.js';
+
+/**
+ * Options for ReplaceCommand
+ */
+export interface ReplaceOptions {
+  /** Fail, listing every placeholder without a replacement and its line/column (default: config.strictTemplates) */
+  strict?: boolean;
+  /** Also produce a JSON report of unused replacements and unresolved placeholders as a second output */
+  lint?: boolean;
+}
+
+/**
+ * Result of linting a ReplaceCommand
+ */
+export interface ReplaceLintReport {
+  /** Replacement keys that do not appear in the template */
+  unusedReplacements: string[];
+  /** Placeholders left in the output, with their position in the template */
+  unresolved: { placeholder: string; line: number; column: number }[];
+}
 
 /**
  * ReplaceCommand - Performs string replacement on a template
  * 
  * This is a single-responsibility command that replaces placeholders in a template.
- * It can be composed with other commands in a workflow pipeline.
+ * It can be composed with other commands in a workflow pipeline. Keys match literally
+ * (`{{file.name}}` and `{{ name }}` both work) and values are inserted as-is.
  * 
  * Usage in workflow:
  *   const template = await flow.run(new SetCommand('Hello, {{name}}!'));
  *   const result = await flow.run(new ReplaceCommand(template[0], { name: 'World' }));
+ *   
+ *   // Fail instead of sending a prompt with a literal {{code}} to an agent
+ *   await flow.run(new ReplaceCommand(template[0], { name: 'World' }, { strict: true }));
  */
 export class ReplaceCommand implements ICommand {
   private templateRef: StringRef;
   private replacements: Record<string, string>;
+  private options: ReplaceOptions;
+
+  /** Lint findings from the last execution */
+  public report?: ReplaceLintReport;
 
   /**
    * Create a new ReplaceCommand
    * @param templateRef - Reference to the template string
    * @param replacements - Key-value pairs for replacements
+   * @param options - strict: fail on unresolved placeholders; lint: output a report of unused replacements
    */
-  constructor(templateRef: StringRef, replacements: Record<string, string>) {
+  constructor(templateRef: StringRef, replacements: Record<string, string>, options: ReplaceOptions = {}) {
     this.templateRef = templateRef;
     this.replacements = replacements;
+    this.options = options;
   }
 
   async execute(
@@ -38,9 +70,29 @@ export class ReplaceCommand implements ICommand {
 
     // Perform replacements
     let result = template;
+    const unusedReplacements: string[] = [];
     for (const [key, value] of Object.entries(this.replacements)) {
-      const placeholder = `{{${key}}}`;
-      result = result.replace(new RegExp(placeholder, 'g'), value);
+      const placeholder = new RegExp(`\\{\\{\\s*${escapeRegExp(key)}\\s*\\}\\}`, 'g');
+      if (template.search(placeholder) === -1) {
+        unusedReplacements.push(key);
+      }
+      // Function replacement keeps `$&` and friends in values literal
+      result = result.replace(placeholder, () => value);
+    }
+
+    // Positions refer to the original template
+    const unresolved = findPlaceholders(template)
+      .filter(placeholder => !Object.prototype.hasOwnProperty.call(this.replacements, placeholder.name))
+      .map(({ placeholder, line, column }) => ({ placeholder, line, column }));
+    this.report = { unusedReplacements, unresolved };
+
+    const strict = this.options.strict ?? context.config?.strictTemplates === true;
+    if (strict && unresolved.length > 0) {
+      throw new Error(formatUnresolvedPlaceholders(unresolved));
+    }
+
+    if (this.options.lint) {
+      return [[result, []], [this.report, []]];
     }
 
     // Return the result with no decorators
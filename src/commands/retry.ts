@@ -0,0 +1,90 @@
+import { ICommand, IFlow, ICardBuilder, IRefDecorator } from '../types.js';
+import { RefPredicate, evaluatePredicate } from './if.js';
+
+/**
+ * Options for RetryCommand
+ */
+export interface RetryOptions {
+  /** Total attempts including the first one (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 1000) */
+  initialDelay?: number;
+  /** Multiplier applied to the delay after each retry (default 2) */
+  backoffFactor?: number;
+  /** Upper bound for a single delay in milliseconds (default 30000) */
+  maxDelay?: number;
+  /** Only retry when the error message matches; other errors fail immediately (default: retry every error) */
+  retryOn?: RefPredicate;
+}
+
+/**
+ * RetryCommand - Re-executes a command with exponential backoff when it fails
+ * 
+ * The wrapped command's outputs are returned as-is, so they are stored once, by the
+ * successful attempt. Useful for agent CLIs that fail intermittently (rate limits,
+ * non-zero exit codes).
+ * 
+ * Usage in workflow:
+ *   const refs = await flow.run(new RetryCommand(
+ *     new AgentCommand(config, [promptRef]),
+ *     { maxAttempts: 4, retryOn: /rate limit|429/i }
+ *   ));
+ */
+export class RetryCommand implements ICommand {
+  private command: ICommand;
+  private maxAttempts: number;
+  private initialDelay: number;
+  private backoffFactor: number;
+  private maxDelay: number;
+  private retryOn?: RefPredicate;
+
+  /** Number of attempts made by the last execution */
+  public attempts = 0;
+
+  /**
+   * Create a new RetryCommand
+   * @param command - Command to execute
+   * @param options - Attempt count, backoff and retry predicate
+   */
+  constructor(command: ICommand, options?: RetryOptions) {
+    this.command = command;
+    this.maxAttempts = options?.maxAttempts ?? 3;
+    this.initialDelay = options?.initialDelay ?? 1000;
+    this.backoffFactor = options?.backoffFactor ?? 2;
+    this.maxDelay = options?.maxDelay ?? 30000;
+    this.retryOn = options?.retryOn;
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new Error(`Invalid maxAttempts: ${this.maxAttempts} (expected a positive integer)`);
+    }
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    let delay = this.initialDelay;
+    this.attempts = 0;
+
+    while (true) {
+      this.attempts++;
+      try {
+        return await this.command.execute(context, args, cardBuilder);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = !this.retryOn || await evaluatePredicate(this.retryOn, message);
+
+        if (!retryable) {
+          throw error;
+        }
+        if (this.attempts >= this.maxAttempts) {
+          throw new Error(`${this.command.constructor.name} failed after ${this.attempts} attempt(s): ${message}`);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        delay = Math.min(delay * this.backoffFactor, this.maxDelay);
+      }
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { ExecCommand, ExecOptions } from './exec.js';
+
+/**
+ * ShellCommand - Runs a command line through the platform shell
+ * 
+ * Uses /bin/sh on macOS/Linux and cmd.exe on Windows, so pipes, redirects and globbing
+ * work. Produces the same outputs as ExecCommand: stdout, stderr and exit code.
+ * Prefer ExecCommand when arguments come from untrusted values, since the shell
+ * interprets the whole command line.
+ * 
+ * Usage in workflow:
+ *   const [files] = await flow.run(new ShellCommand('git ls-files | grep "\\.ts$"', {
+ *     tokens: { stdout: 'ts-files' },
+ *   }));
+ */
+export class ShellCommand extends ExecCommand {
+  protected shell = true;
+
+  /**
+   * Create a new ShellCommand
+   * @param commandLine - Command line passed to the shell
+   * @param options - cwd, env, stdin, timeout, failOnError and output tokens
+   */
+  constructor(commandLine: string, options: ExecOptions = {}) {
+    super(commandLine, [], options);
+  }
+}
@@ -1,13 +1,30 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
 import { resolvePath } from '../utils.js';
+import { renderTemplate, TemplateFilter } from '../template-engine.js';
+
+/**
+ * Options for TemplateCommand
+ */
+export interface TemplateCommandOptions {
+  /** Directory `{{> partial}}` names are resolved against (default: the template file's directory, or cwd) */
+  partialsDir?: string;
+  /** Custom filters, merged over the built-in ones */
+  filters?: Record<string, TemplateFilter>;
+  /** Fail, listing every unresolved placeholder with its line and column (default: config.strictTemplates) */
+  strict?: boolean;
+}
 
 /**
  * TemplateCommand - Processes templates with token replacement
  * 
- * This command reads a template (from file or StringRef) and performs token lookup
- * and replacement using values from the IFlow context.
+ * This command reads a template (from file or StringRef) and renders it with values
+ * from the IFlow context. Beyond `{{token}}`, templates support dotted access into
+ * JSON-typed refs (`{{user.name}}`, `{{items[0]}}`), filters (`{{name | upper}}`),
+ * `{{#if}}` / `{{#each}}` blocks and `{{> partial.md}}` partials. See template-engine.ts.
+ * Unknown tokens are left in place unless `strict` is set.
  * 
  * Usage in workflow:
  *   // From file
@@ -16,16 +33,24 @@ import { resolvePath } from '../utils.js';
  *   // From StringRef
  *   const templateRef = await flow.run(new SetCommand('Hello {{name}}!'));
  *   const result = await flow.run(new TemplateCommand(templateRef[0]));
+ *   
+ *   // Loop over a file list
+ *   await flow.run(new SetCommand(['a.ts', 'b.ts'], 'files'));
+ *   const prompt = await flow.run(new TemplateCommand('{{#each files}}- {{this}}\n{{/each}}'));
  */
 export class TemplateCommand implements ICommand {
   private source: string | StringRef;
+  private options: TemplateCommandOptions;
 
   /**
    * Create a new TemplateCommand
    * @param source - Either a filename or a StringRef to process as template
+   * @param options - partialsDir: directory partials are resolved against; filters: custom filters;
+   *                  strict: fail on unresolved placeholders
    */
-  constructor(source: string | StringRef) {
+  constructor(source: string | StringRef, options: TemplateCommandOptions = {}) {
     this.source = source;
+    this.options = options;
   }
 
   async execute(
@@ -34,6 +59,8 @@ export class TemplateCommand implements ICommand {
     cardBuilder?: ICardBuilder
   ): Promise<[any, IRefDecorator[]][]> {
     let template: string;
+    // Partials resolve relative to the template file when there is one
+    let baseDir = context.cwd;
 
     // Determine if source is a filename or StringRef
     // StringRef has an 'id' property, regular strings don't
@@ -45,6 +72,7 @@ export class TemplateCommand implements ICommand {
       try {
         await fs.access(absolutePath);
         template = await fs.readFile(absolutePath, 'utf-8');
+        baseDir = path.dirname(absolutePath);
       } catch (error) {
         // Not a file, treat as template string directly
         template = this.source;
@@ -58,28 +86,32 @@ export class TemplateCommand implements ICommand {
       template = content;
     }
 
-    // Process template - find all {{token}} patterns and replace with values from context
-    let result = template;
-    
-    // Find all {{token}} patterns
-    const tokenPattern = /\{\{([^}]+)\}\}/g;
-    const matches = template.matchAll(tokenPattern);
-    
-    for (const match of matches) {
-      const tokenName = match[1].trim();
-      
-      // Try to get the token from context
-      // Check if context has a Tokens map (DirectoryOutputContext does)
-      if ('Tokens' in context && context.Tokens instanceof Map) {
-        const tokenRef = context.Tokens.get(tokenName);
-        if (tokenRef) {
-          const tokenValue = await context.get(tokenRef);
-          if (tokenValue !== undefined) {
-            result = result.replace(match[0], tokenValue);
-          }
+    const partialsDir = this.options.partialsDir ? resolvePath(this.options.partialsDir, context.cwd) : baseDir;
+
+    const result = await renderTemplate(template, {
+      // Resolve names against the context's Tokens map (DirectoryOutputContext and MemoryFlow have one)
+      resolve: async (name) => {
+        if (!('Tokens' in context) || !(context.Tokens instanceof Map)) {
+          return undefined;
         }
-      }
-    }
+        const tokenRef: StringRef | undefined = context.Tokens.get(name);
+        if (!tokenRef) {
+          return undefined;
+        }
+        // JSON-typed refs are parsed so templates can reach into them
+        return tokenRef.contentType === 'json' ? readJson(context, tokenRef) : context.get(tokenRef);
+      },
+      loadPartial: async (name) => {
+        const partialPath = path.resolve(partialsDir, name);
+        try {
+          return await fs.readFile(partialPath, 'utf-8');
+        } catch (error) {
+          throw new Error(`Template partial not found: ${name} (looked in ${partialsDir})`);
+        }
+      },
+      filters: this.options.filters,
+      strict: this.options.strict ?? context.config?.strictTemplates === true,
+    });
 
     // Return the processed template
     return [[result, []]];
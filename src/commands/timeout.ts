@@ -0,0 +1,51 @@
+import { ICommand, IFlow, ICardBuilder, IRefDecorator } from '../types.js';
+
+/**
+ * TimeoutCommand - Fails a command that does not finish within a time limit
+ * 
+ * The wrapped command is not cancelled (ICommand has no cancellation); its result is
+ * discarded once the limit passes. Agent configs also accept their own `timeout`,
+ * which kills the CLI process.
+ * 
+ * Usage in workflow:
+ *   const refs = await flow.run(new TimeoutCommand(
+ *     new AgentCommand(config, [promptRef]),
+ *     120000
+ *   ));
+ */
+export class TimeoutCommand implements ICommand {
+  private command: ICommand;
+  private timeout: number;
+
+  /**
+   * Create a new TimeoutCommand
+   * @param command - Command to execute
+   * @param timeout - Time limit in milliseconds
+   */
+  constructor(command: ICommand, timeout: number) {
+    if (!(timeout > 0)) {
+      throw new Error(`Invalid timeout: ${timeout} (expected a positive number of milliseconds)`);
+    }
+    this.command = command;
+    this.timeout = timeout;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timer = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        reject(new Error(`${this.command.constructor.name} timed out after ${this.timeout}ms`));
+      }, this.timeout);
+    });
+
+    try {
+      return await Promise.race([this.command.execute(context, args, cardBuilder), timer]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
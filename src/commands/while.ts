@@ -0,0 +1,76 @@
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+
+/**
+ * Refs produced by a single WhileCommand iteration
+ */
+export interface WhileIteration {
+  /** Zero-based iteration number */
+  iteration: number;
+  /** Refs produced by the iteration's commands */
+  refs: StringRef[];
+}
+
+/**
+ * WhileCommand - Repeats a sub-pipeline while a condition holds, up to an iteration cap
+ * 
+ * The condition is evaluated before every iteration and receives the flow, so it can
+ * inspect refs produced by earlier iterations. Exceeding the cap is an error, which
+ * keeps runaway agent loops from running indefinitely. The command stores a JSON
+ * summary of every iteration; the iterations are also available on `iterations`.
+ * 
+ * Usage in workflow:
+ *   let attempt: StringRef[] = [];
+ *   await flow.run(new WhileCommand(
+ *     async (flow) => attempt.length === 0 || !(await flow.get(attempt[0]))?.includes('PASS'),
+ *     () => [agentCommand],
+ *     { maxIterations: 3 }
+ *   ));
+ */
+export class WhileCommand implements ICommand {
+  private condition: (context: IFlow, iteration: number) => boolean | Promise<boolean>;
+  private body: (iteration: number) => ICommand[] | Promise<ICommand[]>;
+  private maxIterations: number;
+
+  /** Refs produced per iteration (populated after execution) */
+  public iterations: WhileIteration[] = [];
+
+  /**
+   * Create a new WhileCommand
+   * @param condition - Evaluated before each iteration; the loop stops when it returns false
+   * @param body - Factory returning the commands to run for each iteration
+   * @param options - maxIterations: iteration cap (default 10)
+   */
+  constructor(
+    condition: (context: IFlow, iteration: number) => boolean | Promise<boolean>,
+    body: (iteration: number) => ICommand[] | Promise<ICommand[]>,
+    options?: { maxIterations?: number }
+  ) {
+    this.condition = condition;
+    this.body = body;
+    this.maxIterations = options?.maxIterations ?? 10;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    this.iterations = [];
+    let iteration = 0;
+
+    while (await this.condition(context, iteration)) {
+      if (iteration >= this.maxIterations) {
+        throw new Error(`WhileCommand exceeded the maximum of ${this.maxIterations} iterations`);
+      }
+
+      const refs: StringRef[] = [];
+      for (const command of await this.body(iteration)) {
+        refs.push(...await context.run(command));
+      }
+      this.iterations.push({ iteration, refs });
+      iteration++;
+    }
+
+    return [[this.iterations, []]];
+  }
+}
@@ -0,0 +1,122 @@
+import path from 'path';
+import fse from 'fs-extra';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
+import { TokenDecorator } from '../decorators.js';
+import { resolvePath, validateOutputPath } from '../utils.js';
+import { assertWriteAllowed, writeFileAtomic } from './write.js';
+
+/**
+ * What WriteManyCommand does with files that already exist
+ * - overwrite: replace them
+ * - skip: leave them untouched
+ * - error: fail before writing anything
+ */
+export type OverwritePolicy = 'overwrite' | 'skip' | 'error';
+
+/**
+ * Options for WriteManyCommand
+ */
+export interface WriteManyOptions {
+  /** Directory the paths are relative to (default: the working directory) */
+  baseDir?: string;
+  /** Existing file handling (default 'overwrite') */
+  overwrite?: OverwritePolicy;
+  /** Copy existing files to `<file>.backup` before replacing them (default: config.backup, set by --backup) */
+  backup?: boolean;
+  /** Directories written files must stay inside (default: config.allowedWriteRoots, or the working directory) */
+  allowedRoots?: string[];
+  /** Report what would be written without writing (default: config.dryRun, set by --dry-run) */
+  dryRun?: boolean;
+  /** Token for the JSON summary of written and skipped files */
+  token?: string;
+}
+
+/**
+ * WriteManyCommand - Writes a JSON map of path → content into the file tree
+ *
+ * The counterpart of GlobReadCommand: an agent can return several files as one
+ * JSON object and this command writes them all. Paths must be relative and stay
+ * inside the base directory, which must itself be inside an allowed write root.
+ * Files are written atomically; non-string values are written as formatted JSON.
+ * The result is a JSON summary `{ dryRun, written: [...], skipped: [...] }` of absolute
+ * paths; in dry-run mode `written` lists the files that would be written.
+ *
+ * Usage in workflow:
+ *   const answer = await flow.run(agentCommand);
+ *   const files = await flow.run(new ParseJsonResponseCommand(answer[0]));
+ *   await flow.run(new WriteManyCommand(files[0], { overwrite: 'skip' }));
+ */
+export class WriteManyCommand implements ICommand {
+  private filesRef: StringRef;
+  private options: WriteManyOptions;
+
+  /**
+   * Create a new WriteManyCommand
+   * @param filesRef - Reference to a JSON object mapping relative paths to contents
+   * @param options - Base directory, overwrite policy, backup, sandbox and dry-run options, and an optional token
+   */
+  constructor(filesRef: StringRef, options: WriteManyOptions = {}) {
+    this.filesRef = filesRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    // Throws if the content is not valid JSON
+    const files = await readJson(context, this.filesRef);
+    const refName = this.filesRef.token || this.filesRef.id;
+
+    if (files === undefined) {
+      throw new Error(`Files reference not found: ${refName}`);
+    }
+    if (files === null || typeof files !== 'object' || Array.isArray(files)) {
+      throw new Error(`Files reference ${refName} must be a JSON object mapping paths to contents`);
+    }
+
+    const config = context.config || {};
+    const baseDir = resolvePath(this.options.baseDir || '.', context.cwd);
+    const policy = this.options.overwrite || 'overwrite';
+
+    // Validate every path and check for conflicts before writing anything
+    const targets: { absolutePath: string; content: string }[] = [];
+    const existing: string[] = [];
+    for (const [file, value] of Object.entries(files)) {
+      const absolutePath = path.join(baseDir, validateOutputPath(file, baseDir));
+      assertWriteAllowed(absolutePath, context, this.options.allowedRoots);
+      const content = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+      if (await fse.pathExists(absolutePath)) {
+        existing.push(absolutePath);
+      }
+      targets.push({ absolutePath, content });
+    }
+
+    if (policy === 'error' && existing.length > 0) {
+      throw new Error(`Refusing to overwrite existing file(s):\n  ${existing.join('\n  ')}`);
+    }
+
+    const dryRun = this.options.dryRun ?? config.dryRun === true;
+    const written: string[] = [];
+    const skipped: string[] = [];
+    for (const { absolutePath, content } of targets) {
+      const exists = existing.includes(absolutePath);
+      if (policy === 'skip' && exists) {
+        skipped.push(absolutePath);
+        continue;
+      }
+      if (!dryRun) {
+        if (exists && (this.options.backup ?? config.backup === true)) {
+          await fse.copy(absolutePath, `${absolutePath}.backup`);
+        }
+        await fse.ensureDir(path.dirname(absolutePath));
+        await writeFileAtomic(absolutePath, content);
+      }
+      written.push(absolutePath);
+    }
+
+    return [[{ dryRun, written, skipped }, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
@@ -2,29 +2,98 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import fse from 'fs-extra';
 import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
-import { resolvePath } from '../utils.js';
+import { readBuffer } from '../ref-content.js';
+import { resolvePath, validateOutputPath } from '../utils.js';
+import { createUnifiedDiff } from '../diff.js';
+
+/**
+ * Options for WriteCommand
+ */
+export interface WriteOptions {
+  /** Append to the file instead of replacing it */
+  append?: boolean;
+  /** Copy an existing file to `<file>.backup` before changing it (default: config.backup, set by --backup) */
+  backup?: boolean;
+  /** Write to a temporary file and rename it into place, so readers never see a partial file (default true) */
+  atomic?: boolean;
+  /** Directories writes must stay inside (default: config.allowedWriteRoots, or the working directory) */
+  allowedRoots?: string[];
+  /** Return a unified diff of the change instead of writing (default: config.dryRun, set by --dry-run) */
+  dryRun?: boolean;
+}
+
+/**
+ * Throw unless a path lies inside one of the allowed write roots
+ * @param allowedRoots - Roots to check (default: config.allowedWriteRoots, or the working directory)
+ */
+export function assertWriteAllowed(absolutePath: string, context: IFlow, allowedRoots?: string[]): void {
+  const roots: string[] = allowedRoots ?? context.config?.allowedWriteRoots ?? [context.cwd];
+
+  for (const root of roots.map(root => resolvePath(root, context.cwd))) {
+    const relativePath = path.relative(root, absolutePath);
+    try {
+      validateOutputPath(relativePath, root);
+      return;
+    } catch {
+      // Not inside this root - try the next one
+    }
+  }
+
+  throw new Error(`Invalid output path: ${absolutePath} is outside the allowed write roots (${roots.join(', ')})`);
+}
+
+/**
+ * Write a file via a temporary file and a rename, so readers never see a partial file.
+ * A symlinked target is written through to the file it points at, and an existing
+ * file keeps its mode.
+ */
+export async function writeFileAtomic(absolutePath: string, content: Buffer | string): Promise<void> {
+  const targetPath = await fs.realpath(absolutePath).catch(() => absolutePath);
+  const mode = await fs.stat(targetPath).then((stats) => stats.mode, () => undefined);
+
+  // Write next to the target so the rename stays on one file system
+  const tempPath = path.join(path.dirname(targetPath), `.${path.basename(targetPath)}.${process.pid}.${Date.now()}.tmp`);
+  try {
+    await fs.writeFile(tempPath, content);
+    if (mode !== undefined) {
+      await fs.chmod(tempPath, mode & 0o7777);
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
 
 /**
  * WriteCommand - Writes content from a StringRef to a file
- * 
- * This command writes the content of a StringRef to a specified file.
- * 
+ *
+ * This command writes the content of a StringRef to a specified file. The path must
+ * stay inside an allowed root (the working directory unless configured otherwise),
+ * so a path produced by an agent or template cannot escape the project. Files are
+ * replaced atomically; with `backup` the previous version is kept as `<file>.backup`.
+ * In dry-run mode nothing is written and the output is a unified diff of the change.
+ *
  * Usage in workflow:
  *   const contentRef = await flow.run(new SetCommand('Hello, World!'));
  *   await flow.run(new WriteCommand('output.txt', contentRef[0]));
+ *   await flow.run(new WriteCommand('build.log', contentRef[0], { append: true }));
  */
 export class WriteCommand implements ICommand {
   private fileName: string;
   private contentRef: StringRef;
+  private options: WriteOptions;
 
   /**
    * Create a new WriteCommand
    * @param fileName - The name of the file to write to
    * @param contentRef - Reference to the content to write
+   * @param options - Append, backup, atomic, sandbox and dry-run options
    */
-  constructor(fileName: string, contentRef: StringRef) {
+  constructor(fileName: string, contentRef: StringRef, options: WriteOptions = {}) {
     this.fileName = fileName;
     this.contentRef = contentRef;
+    this.options = options;
   }
 
   async execute(
@@ -32,23 +101,63 @@ export class WriteCommand implements ICommand {
     args: any[],
     cardBuilder?: ICardBuilder
   ): Promise<[any, IRefDecorator[]][]> {
-    // Get the content from the workflow context
-    const content = await context.get(this.contentRef);
-    
+    // Get the content from the workflow context as raw bytes (works for text, JSON and binary refs)
+    const content = await readBuffer(context, this.contentRef);
+
     if (content === undefined) {
       throw new Error(`Content reference not found: ${this.contentRef.token || this.contentRef.id}`);
     }
 
-    // Resolve file path relative to cwd
+    // Resolve file path relative to cwd and check it against the sandbox
     const absolutePath = resolvePath(this.fileName, context.cwd);
+    assertWriteAllowed(absolutePath, context, this.options.allowedRoots);
+
+    const config = context.config || {};
+    const exists = await fse.pathExists(absolutePath);
+
+    if (this.options.dryRun ?? config.dryRun === true) {
+      const preview = await this.createPreview(absolutePath, exists, content, context.cwd);
+      // Info messages are shown in verbose mode only
+      context.outputSynk?.writeInfo(preview);
+      return [[preview, []]];
+    }
 
     // Ensure directory exists
     await fse.ensureDir(path.dirname(absolutePath));
 
-    // Write to file
-    await fs.writeFile(absolutePath, content, 'utf-8');
+    if (exists && (this.options.backup ?? config.backup === true)) {
+      await fse.copy(absolutePath, `${absolutePath}.backup`);
+    }
+
+    if (this.options.append) {
+      await fs.appendFile(absolutePath, content);
+    } else if (this.options.atomic === false) {
+      await fs.writeFile(absolutePath, content);
+    } else {
+      await writeFileAtomic(absolutePath, content);
+    }
 
     // Return the file path as confirmation
     return [[absolutePath, []]];
   }
+
+  /**
+   * Describe the write that would happen, with a unified diff for text content
+   */
+  private async createPreview(absolutePath: string, exists: boolean, content: Buffer, cwd: string): Promise<string> {
+    const current = exists ? await fs.readFile(absolutePath) : Buffer.alloc(0);
+    const next = this.options.append ? Buffer.concat([current, content]) : content;
+    const label = path.relative(cwd, absolutePath).replace(/\\/g, '/');
+    const header = `[DRY-RUN] Would write ${absolutePath}`;
+
+    if (current.includes(0) || next.includes(0)) {
+      return `${header} (binary, ${next.length} bytes)`;
+    }
+
+    const diff = createUnifiedDiff(current.toString('utf-8'), next.toString('utf-8'), {
+      oldLabel: exists ? `a/${label}` : '/dev/null',
+      newLabel: `b/${label}`,
+    });
+    return diff ? `${header}\n${diff}` : `${header} (no changes)`;
+  }
 }
@@ -0,0 +1,61 @@
+import YAML from 'yaml';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { TokenDecorator } from '../decorators.js';
+
+/**
+ * Options for YamlParseCommand
+ */
+export interface YamlParseCommandOptions {
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * YamlParseCommand - Parses YAML content into a JSON value
+ * 
+ * The result is stored as JSON, so it can be queried with JsonQueryCommand or
+ * reached into from TemplateCommand (`{{config.name}}`).
+ * 
+ * Usage in workflow:
+ *   const yaml = await flow.run(new ReadCommand('openapi.yaml'));
+ *   const spec = await flow.run(new YamlParseCommand(yaml[0], { token: 'spec' }));
+ */
+export class YamlParseCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: YamlParseCommandOptions;
+
+  /**
+   * Create a new YamlParseCommand
+   * @param sourceRef - Reference to the YAML content
+   * @param options - An optional token
+   */
+  constructor(sourceRef: StringRef, options: YamlParseCommandOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const content = await context.get(this.sourceRef);
+
+    if (content === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    let value: any;
+    try {
+      value = YAML.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse YAML for reference ${this.sourceRef.token || this.sourceRef.id}: ` +
+        `${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // An empty document parses to null; store it as JSON rather than as missing
+    return [[value === undefined ? null : value, this.options.token ? [new TokenDecorator(this.options.token)] : []]];
+  }
+}
@@ -0,0 +1,54 @@
+import YAML from 'yaml';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from '../types.js';
+import { readJson } from '../ref-content.js';
+import { TokenDecorator, ContentTypeDecorator } from '../decorators.js';
+
+/**
+ * Options for YamlStringifyCommand
+ */
+export interface YamlStringifyCommandOptions {
+  /** Token to reference the result */
+  token?: string;
+}
+
+/**
+ * YamlStringifyCommand - Serializes JSON content to YAML text
+ * 
+ * Usage in workflow:
+ *   const config = await flow.run(new SetCommand({ name: 'api', replicas: 2 }));
+ *   const yaml = await flow.run(new YamlStringifyCommand(config[0]));
+ *   await flow.run(new WriteCommand('deploy.yaml', yaml[0]));
+ */
+export class YamlStringifyCommand implements ICommand {
+  private sourceRef: StringRef;
+  private options: YamlStringifyCommandOptions;
+
+  /**
+   * Create a new YamlStringifyCommand
+   * @param sourceRef - Reference to the JSON content
+   * @param options - An optional token
+   */
+  constructor(sourceRef: StringRef, options: YamlStringifyCommandOptions = {}) {
+    this.sourceRef = sourceRef;
+    this.options = options;
+  }
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    // Throws if the content is not valid JSON
+    const value = await readJson(context, this.sourceRef);
+
+    if (value === undefined) {
+      throw new Error(`Source reference not found: ${this.sourceRef.token || this.sourceRef.id}`);
+    }
+
+    const decorators: IRefDecorator[] = [new ContentTypeDecorator('text', 'application/yaml')];
+    if (this.options.token) {
+      decorators.push(new TokenDecorator(this.options.token));
+    }
+    return [[YAML.stringify(value), decorators]];
+  }
+}
@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
-import { AgentTool } from './commands/agent.js';
+import { IAgentConfig } from './commands/agents/base.js';
+import { createAgentConfig, getAgentProvider } from './commands/agents/registry.js';
 
 /**
  * Default configuration
@@ -62,40 +63,36 @@ export function getDefaultAgent(config: Record<string, any>): string {
 
 /**
  * Get agent configuration from config
+ * The agent is created by the provider registered for its type; tasks default to
+ * a 5 minute timeout and to allowing all tools unless the config says otherwise
  */
-export function getAgentConfig(config: Record<string, any>, agentName: string): any {
+export function getAgentConfig(config: Record<string, any>, agentName: string): IAgentConfig | null {
   if (!config.agents || !Array.isArray(config.agents)) {
     return null;
   }
 
   const agentDef = config.agents.find((a: any) => a.name === agentName);
-  if (!agentDef) {
+  if (!agentDef || !getAgentProvider(agentDef.type)) {
     return null;
   }
 
-  // Map agent type to AgentTool enum
-  const toolMap: Record<string, AgentTool> = {
-    'gemini': AgentTool.GEMINI,
-    'claude': AgentTool.CLAUDE,
-    'copilot': AgentTool.COPILOT,
-    'aider': AgentTool.AIDER,
-    'qwen': AgentTool.QWEN,
-    'llm': AgentTool.LLM,
-  };
+  return createAgentConfig({
+    ...agentDef,
+    timeout: agentDef.timeout || 300000,
+    config: { allowAllTools: true, ...agentDef.config },
+  });
+}
 
-  const tool = toolMap[agentDef.type];
-  if (!tool) {
-    return null;
+/**
+ * Get the agent to fall back to when the given agent fails
+ * Prefers the first configured Claude agent other than the given one
+ */
+export function getFallbackAgent(config: Record<string, any>, agentName: string): string | undefined {
+  if (!config.agents || !Array.isArray(config.agents)) {
+    return undefined;
   }
-
-  return {
-    tool,
-    model: agentDef.config?.model,
-    timeout: agentDef.timeout || 300000,
-    nonInteractive: true,
-    allowAllTools: agentDef.config?.allowAllTools !== false,
-    ...agentDef.config,
-  };
+  const fallback = config.agents.find((a: any) => a.type === 'claude' && a.name !== agentName);
+  return fallback?.name;
 }
 
 /**
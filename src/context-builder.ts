@@ -1,6 +1,29 @@
-import { ExecutionContext, VerbosityLevel } from './types.js';
+import path from 'path';
+import { ExecutionContext, IFlow, VerbosityLevel } from './types.js';
 import { ConsoleOutputBuilder } from './output-builders.js';
-import { DirectoryOutputContext } from './directory-output-context.js';
+import { DirectoryOutputContext, createRunId } from './directory-output-context.js';
+import { MemoryFlow } from './memory-flow.js';
+import { ContentTypeDecorator, TokenDecorator } from './decorators.js';
+
+/**
+ * Runtime options used when building an execution context
+ */
+export interface ContextBuildOptions {
+  /** Show what would be executed without running it */
+  dryRun?: boolean;
+  /** Back up files before WriteCommand changes them (--backup) */
+  backup?: boolean;
+  /** Tokens from previous runs to preload into the workflow context (--ref) */
+  refs?: string[];
+  /** Task being executed; when set, outputs are grouped in a per-run directory */
+  taskName?: string;
+  /** Persist outputs to the output directory (default: true); false keeps them in memory */
+  persist?: boolean;
+  /** QuestionCommand answers keyed by question id (--answer, --answers) */
+  answers?: Record<string, string>;
+  /** Never prompt; unanswered questions without a default fail (--non-interactive) */
+  nonInteractive?: boolean;
+}
 
 /**
  * Builds execution context from resolved options
@@ -14,16 +37,25 @@ export class ContextBuilder {
   /**
    * Builds a complete execution context for command execution
    */
-  build(outputDir: string, verbosity: VerbosityLevel, dryRun?: boolean): ExecutionContext {
+  async build(outputDir: string, verbosity: VerbosityLevel, options: ContextBuildOptions = {}): Promise<ExecutionContext> {
+    const { dryRun, backup, refs = [], taskName, persist = true, answers = {}, nonInteractive } = options;
+
     // Merge runtime options into config so they're accessible to all commands
     const runtimeConfig = {
       ...this.config,
       verbosity,
       dryRun: dryRun || false,
+      backup: backup || this.config.backup === true,
+      answers: { ...this.config.answers, ...answers },
+      nonInteractive: nonInteractive || this.config.nonInteractive === true,
     };
 
-    const workflowContext = new DirectoryOutputContext(this.cwd, outputDir, verbosity, runtimeConfig);
+    const workflowContext = persist
+      ? await this.buildDirectoryFlow(outputDir, verbosity, runtimeConfig, refs, taskName)
+      : await this.buildMemoryFlow(outputDir, verbosity, runtimeConfig, refs);
     const outputSynk = new ConsoleOutputBuilder(verbosity);
+    // Commands reach the synk through the flow for live progress
+    workflowContext.outputSynk = outputSynk;
 
     return {
       cwd: this.cwd,
@@ -34,4 +66,61 @@ export class ContextBuilder {
       verbosity
     };
   }
+
+  /**
+   * Build a flow that persists outputs to a per-run directory
+   */
+  private async buildDirectoryFlow(
+    outputDir: string,
+    verbosity: VerbosityLevel,
+    runtimeConfig: Record<string, any>,
+    refs: string[],
+    taskName?: string
+  ): Promise<IFlow> {
+    // Each task invocation gets its own timestamped run directory with a manifest
+    const run = taskName ? { id: createRunId(taskName), task: taskName } : undefined;
+    const flow = new DirectoryOutputContext(this.cwd, outputDir, verbosity, runtimeConfig, run);
+
+    // Preload referenced tokens so tasks can resolve them from the flow
+    if (refs.length > 0) {
+      await flow.loadTokens(refs);
+    }
+
+    return flow;
+  }
+
+  /**
+   * Build a flow that keeps outputs in memory (--no-persist)
+   * Referenced tokens are copied in from the on-disk index without writing anything
+   */
+  private async buildMemoryFlow(
+    outputDir: string,
+    verbosity: VerbosityLevel,
+    runtimeConfig: Record<string, any>,
+    refs: string[]
+  ): Promise<IFlow> {
+    const spillDir = runtimeConfig.spillDir
+      ? path.resolve(this.cwd, runtimeConfig.spillDir)
+      : undefined;
+    const flow = new MemoryFlow(this.cwd, verbosity, runtimeConfig, {
+      spillDir,
+      spillThreshold: runtimeConfig.spillThreshold,
+    });
+
+    if (refs.length > 0) {
+      const persisted = new DirectoryOutputContext(this.cwd, outputDir, verbosity, runtimeConfig);
+      for (const ref of await persisted.loadTokens(refs)) {
+        const content = await persisted.getBuffer(ref);
+        if (content === undefined) {
+          throw new Error(`Reference token file is missing: ${ref.token} (${ref.fileName})`);
+        }
+        await flow.set(content, [
+          new ContentTypeDecorator(ref.contentType || 'text', ref.mimeType),
+          new TokenDecorator(ref.token!),
+        ]);
+      }
+    }
+
+    return flow;
+  }
 }
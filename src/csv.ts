@@ -0,0 +1,147 @@
+/**
+ * CSV parsing and serialization (RFC 4180) used by CsvParseCommand and CsvWriteCommand
+ */
+
+/**
+ * Options for parseCsv
+ */
+export interface CsvParseOptions {
+  /** Field delimiter (default ',') */
+  delimiter?: string;
+  /** Treat the first row as column names and return objects (default true) */
+  headers?: boolean;
+}
+
+/**
+ * Options for stringifyCsv
+ */
+export interface CsvStringifyOptions {
+  /** Field delimiter (default ',') */
+  delimiter?: string;
+  /** Columns to write, in order (default: keys of the objects, in first-seen order) */
+  columns?: string[];
+  /** Write a header row for object rows (default true) */
+  headers?: boolean;
+}
+
+/**
+ * Reject delimiters that cannot separate fields
+ */
+function checkDelimiter(delimiter: string): string {
+  if (typeof delimiter !== 'string' || delimiter.length === 0 || /["\r\n]/.test(delimiter)) {
+    throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)} (expected a non-empty string without quotes or newlines)`);
+  }
+  return delimiter;
+}
+
+/**
+ * Parse CSV text into rows
+ * Quoted fields may contain delimiters, newlines and doubled quotes ("").
+ * @returns Objects keyed by header when `headers` is true, otherwise arrays of fields
+ * @throws Error on an unterminated quoted field or an invalid delimiter
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): Record<string, string>[] | string[][] {
+  const delimiter = checkDelimiter(options.delimiter ?? ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  // Skip a UTF-8 byte order mark
+  if (text.charCodeAt(0) === 0xfeff) {
+    i = 1;
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = '';
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  const dataRows = rows.filter(fields => !(fields.length === 1 && fields[0] === ''));
+
+  if (options.headers === false) {
+    return dataRows;
+  }
+
+  const [header = [], ...records] = dataRows;
+  return records.map(fields => {
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = fields[index] ?? '';
+    });
+    return record;
+  });
+}
+
+/**
+ * Serialize rows to CSV text
+ * Fields containing the delimiter, quotes or newlines are quoted.
+ * @param rows - Objects (written under a header row) or arrays of fields
+ * @throws Error on an invalid delimiter
+ */
+export function stringifyCsv(rows: any[], options: CsvStringifyOptions = {}): string {
+  const delimiter = checkDelimiter(options.delimiter ?? ',');
+  const lines: string[] = [];
+
+  const formatField = (value: any): string => {
+    const text = value === undefined || value === null
+      ? ''
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const objectRows = rows.length > 0 && rows.every(row => row !== null && typeof row === 'object' && !Array.isArray(row));
+
+  if (objectRows || options.columns) {
+    const columns = options.columns ?? Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    if (options.headers !== false) {
+      lines.push(columns.map(formatField).join(delimiter));
+    }
+    for (const row of rows) {
+      lines.push(columns.map(column => formatField(row?.[column])).join(delimiter));
+    }
+  } else {
+    for (const row of rows) {
+      const fields = Array.isArray(row) ? row : [row];
+      lines.push(fields.map(formatField).join(delimiter));
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
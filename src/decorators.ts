@@ -1,4 +1,4 @@
-import { IRefDecorator, StringRef } from './types.js';
+import { IRefDecorator, RefContentType, StringRef } from './types.js';
 
 /**
  * Decorator that adds a user-friendly token to a StringRef
@@ -49,3 +49,22 @@ export class TimestampedFileNameDecorator implements IRefDecorator {
     };
   }
 }
+
+/**
+ * Decorator that overrides the content type and MIME type of a StringRef
+ * Useful when the detected type is too generic (e.g. binary data that is a PNG image)
+ */
+export class ContentTypeDecorator implements IRefDecorator {
+  constructor(
+    private contentType: RefContentType,
+    private mimeType?: string
+  ) {}
+
+  decorate(ref: StringRef): StringRef {
+    return {
+      ...ref,
+      contentType: this.contentType,
+      mimeType: this.mimeType ?? ref.mimeType,
+    };
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Line-based unified diffs used by DiffCommand, ApplyPatchCommand and WriteCommand's dry-run preview
+ *
+ * Lines are compared with their line terminators, so a change to the final
+ * newline shows up as a change (marked `\ No newline at end of file`, like git).
+ * Patches are applied like patch(1): hunks may move (offset) and, with fuzz, match
+ * with up to `fuzz` context lines ignored at each end.
+ */
+
+/**
+ * Options for createUnifiedDiff
+ */
+export interface UnifiedDiffOptions {
+  /** Label for the original text in the `---` header (default 'a') */
+  oldLabel?: string;
+  /** Label for the new text in the `+++` header (default 'b') */
+  newLabel?: string;
+  /** Unchanged lines shown around each change (default 3) */
+  context?: number;
+}
+
+/**
+ * One line of a line diff
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  /** Line content including its terminator (the last line may have none) */
+  text: string;
+}
+
+/**
+ * Split text into lines, keeping each line's terminator
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Compute the shortest line diff between two texts (Myers' algorithm)
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix never need the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle = myers(a.slice(start, endA), b.slice(start, endB));
+  return [
+    ...a.slice(0, start).map((text): DiffLine => ({ type: ' ', text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffLine => ({ type: ' ', text })),
+  ];
+}
+
+/**
+ * Edit distance past which the middle of a diff is shown as one replacement
+ * Keeps memory bounded (the trace grows with the square of the distance) for large rewrites
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myers' O(ND) diff with a trace for backtracking
+ * Each trace entry keeps only diagonals -d..d, so a trace of D steps holds O(D²) values.
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  search:
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break search;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((text): DiffLine => ({ type: '-', text })),
+      ...b.map((text): DiffLine => ({ type: '+', text })),
+    ];
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // trace[d] holds diagonal k at index k + d
+    const previous = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : previous[previousK + d];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        lines.push({ type: '+', text: b[--y] });
+      } else {
+        lines.push({ type: '-', text: a[--x] });
+      }
+    }
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Create a unified diff between two texts
+ * @returns The diff, or an empty string when the texts are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(oldText, newText);
+  const changes = lines.flatMap((line, index) => line.type === ' ' ? [] : [index]);
+
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows touch into hunks of [start, end) line indexes
+  const ranges: [number, number][] = [];
+  for (const index of changes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers before each diff line
+  const oldNumbers: number[] = [];
+  const newNumbers: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    oldNumbers.push(oldLine);
+    newNumbers.push(newLine);
+    if (line.type !== '+') oldLine++;
+    if (line.type !== '-') newLine++;
+  }
+
+  const output = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+  for (const [start, end] of ranges) {
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    // An empty side is numbered from the line before it, as diff(1) does
+    const oldStart = oldCount === 0 ? oldNumbers[start] : oldNumbers[start] + 1;
+    const newStart = newCount === 0 ? newNumbers[start] : newNumbers[start] + 1;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const line of hunk) {
+      if (line.text.endsWith('\n')) {
+        output.push(line.type + line.text.slice(0, -1));
+      } else {
+        output.push(line.type + line.text, '\\ No newline at end of file');
+      }
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Format a hunk range, omitting a count of 1
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? String(start) : `${start},${count}`;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface PatchHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  /** Hunk lines without terminators */
+  lines: { type: ' ' | '-' | '+'; text: string }[];
+  /** The old side's last line has no newline (`\ No newline at end of file`) */
+  oldNoNewline?: boolean;
+  /** The new side's last line has no newline */
+  newNoNewline?: boolean;
+}
+
+/**
+ * The changes to one file in a unified diff
+ */
+export interface FilePatch {
+  /** Path from the `---` header ('/dev/null' for a new file) */
+  oldPath: string;
+  /** Path from the `+++` header ('/dev/null' for a deleted file) */
+  newPath: string;
+  hunks: PatchHunk[];
+}
+
+/**
+ * Result of applying hunks to a text
+ */
+export interface ApplyHunksResult {
+  text: string;
+  /** Hunks that could not be placed */
+  rejected: PatchHunk[];
+}
+
+/**
+ * Parse a unified diff (plain or git-style) into per-file patches
+ * Text outside file sections, such as an agent's explanation, is ignored.
+ * @throws Error on a malformed hunk
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = text.split(/\r?\n/);
+  let current: FilePatch | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = { oldPath: parseHeaderPath(line), newPath: parseHeaderPath(lines[i + 1]), hunks: [] };
+      patches.push(current);
+      i++;
+      continue;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (!header || !current) continue;
+
+    const hunk: PatchHunk = {
+      oldStart: parseInt(header[1], 10),
+      oldCount: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+      newStart: parseInt(header[3], 10),
+      newCount: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+      lines: [],
+    };
+
+    // Read lines until both sides of the hunk are complete
+    let oldSeen = 0;
+    let newSeen = 0;
+    while (oldSeen < hunk.oldCount || newSeen < hunk.newCount) {
+      const hunkLine = lines[++i];
+      // A marker mid-hunk belongs to the line before it (the last line of one side)
+      if (hunkLine?.startsWith('\\') && hunk.lines.length > 0) {
+        markNoNewline(hunk, hunk.lines[hunk.lines.length - 1].type);
+        continue;
+      }
+      if (hunkLine === undefined || !/^[ +-]|^$/.test(hunkLine)) {
+        throw new Error(`Malformed patch: hunk at line ${header[0]} ends early`);
+      }
+      // Some tools drop the space on empty context lines
+      const type = (hunkLine[0] || ' ') as ' ' | '-' | '+';
+      hunk.lines.push({ type, text: hunkLine.slice(1) });
+      if (type !== '+') oldSeen++;
+      if (type !== '-') newSeen++;
+    }
+    // A marker can also follow the hunk's final line
+    const last = hunk.lines[hunk.lines.length - 1];
+    if (last && lines[i + 1]?.startsWith('\\')) {
+      markNoNewline(hunk, last.type);
+      i++;
+    }
+
+    current.hunks.push(hunk);
+  }
+
+  return patches;
+}
+
+/**
+ * Record a `\ No newline at end of file` marker following a line of the given type
+ */
+function markNoNewline(hunk: PatchHunk, type: ' ' | '-' | '+'): void {
+  if (type !== '+') hunk.oldNoNewline = true;
+  if (type !== '-') hunk.newNoNewline = true;
+}
+
+/**
+ * Path from a `---`/`+++` header, without a trailing timestamp
+ */
+function parseHeaderPath(line: string): string {
+  const value = line.slice(4).split('\t')[0].trim();
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+/**
+ * Apply hunks to a text, placing each hunk like patch(1)
+ * A hunk is tried at its recorded line (adjusted by earlier hunks' drift), then at
+ * increasing distances from it; with fuzz, up to `fuzz` leading and trailing context
+ * lines may be ignored. Hunks that cannot be placed are returned as rejected.
+ */
+export function applyHunks(text: string, hunks: PatchHunk[], fuzz = 2): ApplyHunksResult {
+  const newline = text.includes('\r\n') ? '\r\n' : '\n';
+  let endsWithNewline = text.length === 0 || text.endsWith('\n');
+  const lines = text.length === 0 ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+  const rejected: PatchHunk[] = [];
+  let drift = 0;
+
+  for (const hunk of hunks) {
+    // A hunk with no old lines inserts after line oldStart; others start at it
+    const start = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const placement = placeHunk(lines, hunk, start + drift, fuzz);
+    if (!placement) {
+      rejected.push(hunk);
+      continue;
+    }
+
+    const { index, skipStart, skipEnd } = placement;
+    const body = hunk.lines.slice(skipStart, hunk.lines.length - skipEnd);
+    const oldLines = body.filter(line => line.type !== '+').map(line => line.text);
+    const newLines = body.filter(line => line.type !== '-').map(line => line.text);
+
+    lines.splice(index, oldLines.length, ...newLines);
+    // Later hunks move by where this one was found and by the lines it added or removed
+    drift = index - skipStart - start + newLines.length - oldLines.length;
+
+    // Follow the patch's view of the final newline when the hunk reaches the end
+    if (index + newLines.length === lines.length && skipEnd === 0) {
+      if (hunk.newNoNewline) {
+        endsWithNewline = false;
+      } else if (hunk.oldNoNewline || newLines.length > 0) {
+        endsWithNewline = true;
+      }
+    }
+  }
+
+  const joined = lines.join(newline);
+  return { text: joined + (endsWithNewline && lines.length > 0 ? newline : ''), rejected };
+}
+
+/**
+ * Find where a hunk applies, trying more fuzz only when no exact placement exists
+ */
+function placeHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  expected: number,
+  fuzz: number
+): { index: number; skipStart: number; skipEnd: number } | undefined {
+  const leadingContext = hunk.lines.findIndex(line => line.type !== ' ');
+  const trailingContext = hunk.lines.length - 1 - findLastIndex(hunk.lines, line => line.type !== ' ');
+
+  for (let level = 0; level <= fuzz; level++) {
+    const skipStart = Math.min(level, leadingContext);
+    const skipEnd = Math.min(level, trailingContext);
+    if (level > 0 && skipStart === 0 && skipEnd === 0) break;
+
+    const oldLines = hunk.lines
+      .slice(skipStart, hunk.lines.length - skipEnd)
+      .filter(line => line.type !== '+')
+      .map(line => line.text);
+    const target = expected + skipStart;
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      for (const index of distance === 0 ? [target] : [target - distance, target + distance]) {
+        if (index >= 0 && index + oldLines.length <= lines.length && matchesAt(lines, oldLines, index)) {
+          return { index, skipStart, skipEnd };
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether `expected` appears in `lines` at `index` (ignoring trailing CR)
+ */
+function matchesAt(lines: string[], expected: string[], index: number): boolean {
+  return expected.every((line, offset) => lines[index + offset].replace(/\r$/, '') === line.replace(/\r$/, ''));
+}
+
+/**
+ * Array.prototype.findLastIndex for older targets
+ */
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Format hunks back into unified diff text (used for rejected hunks)
+ */
+export function formatPatch(oldPath: string, newPath: string, hunks: PatchHunk[]): string {
+  const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+  for (const hunk of hunks) {
+    output.push(`@@ -${formatRange(hunk.oldStart, hunk.oldCount)} +${formatRange(hunk.newStart, hunk.newCount)} @@`);
+    hunk.lines.forEach((line, index) => {
+      output.push(line.type + line.text);
+      const isLastOld = line.type !== '+' && !hunk.lines.slice(index + 1).some(next => next.type !== '+');
+      const isLastNew = line.type !== '-' && !hunk.lines.slice(index + 1).some(next => next.type !== '-');
+      if ((isLastOld && hunk.oldNoNewline) || (isLastNew && hunk.newNoNewline)) {
+        output.push('\\ No newline at end of file');
+      }
+    });
+  }
+  return output.join('\n') + '\n';
+}
@@ -1,14 +1,82 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { v4 as uuidv4 } from 'uuid';
 import fse from 'fs-extra';
 import {
   IFlow,
   ICommand,
+  IOutputSynk,
   IRefDecorator,
   StringRef,
+  RunManifest,
+  RunAllOptions,
 } from './types.js';
+import { runConcurrently } from './run-all.js';
 import { TimestampedFileNameDecorator } from './decorators.js';
+import { detectContentType, getContentDefaults, parseJsonContent, serializeContent } from './ref-content.js';
+
+/**
+ * Name of the token index file kept in the output directory
+ * Maps token -> StringRef so tokens survive across CLI invocations
+ */
+export const TOKEN_INDEX_FILE = 'tokens.json';
+
+/**
+ * Name of the manifest file written to each run directory
+ */
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Create a timestamped run directory name for a task invocation
+ * Uses the same timestamp layout as TimestampedFileNameDecorator so runs sort chronologically
+ */
+export function createRunId(taskName: string, date: Date = new Date()): string {
+  const dateStr = date.toISOString().replace(/[-:]/g, '').split('.')[0];
+  const ms = date.getMilliseconds().toString().padStart(3, '0');
+  return `${dateStr}-${ms}-${taskName}`;
+}
+
+/**
+ * Read the token index from an output directory
+ * Returns an empty index if the file does not exist or cannot be parsed
+ */
+async function readTokenIndex(outputDir: string): Promise<Record<string, StringRef>> {
+  const indexPath = path.join(outputDir, TOKEN_INDEX_FILE);
+  try {
+    const data = await fs.readFile(indexPath, 'utf-8');
+    const raw = JSON.parse(data) as Record<string, StringRef>;
+    const index: Record<string, StringRef> = {};
+    for (const [token, ref] of Object.entries(raw)) {
+      index[token] = { ...ref, timestamp: new Date(ref.timestamp) };
+    }
+    return index;
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Remove token index entries whose files no longer exist (e.g. after old runs are cleaned)
+ * @returns The tokens that were removed
+ */
+export async function pruneTokenIndex(outputDir: string): Promise<string[]> {
+  const index = await readTokenIndex(outputDir);
+  const removed: string[] = [];
+
+  for (const [token, ref] of Object.entries(index)) {
+    if (!(await fse.pathExists(path.join(outputDir, ref.fileName)))) {
+      delete index[token];
+      removed.push(token);
+    }
+  }
+
+  if (removed.length > 0) {
+    await fse.writeJson(path.join(outputDir, TOKEN_INDEX_FILE), index, { spaces: 2 });
+  }
+
+  return removed;
+}
 
 /**
  * Workflow context that writes outputs to timestamped files in a directory
@@ -18,20 +86,66 @@ export class DirectoryOutputContext implements IFlow {
   private outputDir: string;
   public verbosity?: string;
   public config?: Record<string, any>;
+  public outputSynk?: IOutputSynk;
+  private manifest?: RunManifest;
+  /** Name of the command currently executing; scoped per async call chain so concurrent runs don't mix */
+  private currentCommand = new AsyncLocalStorage<string>();
+  /** Serializes manifest and token index writes, which are read-modify-write */
+  private indexWrites: Promise<void> = Promise.resolve();
 
-  constructor(public cwd: string, outputDir: string = '.open-tasks/logs', verbosity: string = 'summary', config?: Record<string, any>) {
+  /**
+   * @param run - Optional run to group outputs under; files are written to `<outputDir>/<run.id>/`
+   *              and recorded in that directory's manifest.json
+   */
+  constructor(
+    public cwd: string,
+    outputDir: string = '.open-tasks/logs',
+    verbosity: string = 'summary',
+    config?: Record<string, any>,
+    run?: { id: string; task?: string }
+  ) {
     this.outputDir = outputDir;
     this.Tokens = new Map();
     this.verbosity = verbosity;
     this.config = config;
+
+    if (run) {
+      this.manifest = {
+        runId: run.id,
+        task: run.task,
+        cwd,
+        startedAt: new Date().toISOString(),
+        refs: [],
+      };
+    }
+  }
+
+  /**
+   * Name of the run directory outputs are grouped under (undefined when writing flat)
+   */
+  get runId(): string | undefined {
+    return this.manifest?.runId;
   }
 
   public async set(value: any, decorators?: IRefDecorator[]): Promise<StringRef> {
+    // Attribute direct sets made while a command is executing to that command
+    return this.store(value, decorators, this.currentCommand.getStore());
+  }
+
+  /**
+   * Persist a value and record it in the run manifest
+   * @param producer - Name of the command that produced the value
+   */
+  private async store(value: any, decorators: IRefDecorator[] | undefined, producer?: string): Promise<StringRef> {
     const id = uuidv4();
+    const contentType = detectContentType(value);
+    const { mimeType, extension } = getContentDefaults(contentType);
     let ref: StringRef = {
       id,
-      fileName: `${id}.txt`,
+      fileName: `${id}.${extension}`,
       timestamp: new Date(),
+      contentType,
+      mimeType,
     };
 
     // Apply decorators
@@ -41,25 +155,51 @@ export class DirectoryOutputContext implements IFlow {
       }
     }
 
-    // Ensure output directory exists
-    await fse.ensureDir(this.outputDir);
+    // Group the file under the run directory; fileName stays relative to the output directory
+    if (this.manifest) {
+      ref = { ...ref, fileName: path.join(this.manifest.runId, ref.fileName) };
+    }
 
-    // Prepare content
-    const fileContent =
-      typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    // Prepare content (binary values are kept as raw bytes)
+    const fileContent = serializeContent(value);
 
     // Write to file
     const filePath = path.join(this.outputDir, ref.fileName!);
-    await fs.writeFile(filePath, fileContent, 'utf-8');   
+    await fse.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, fileContent);   
+
+    if (this.manifest) {
+      this.manifest.refs.push({
+        id: ref.id,
+        token: ref.token,
+        fileName: ref.fileName,
+        timestamp: ref.timestamp.toISOString(),
+        decorators: (decorators || []).map(decorator => decorator.constructor.name),
+        command: producer,
+        contentType: ref.contentType!,
+        mimeType: ref.mimeType,
+        size: fileContent.length,
+      });
+      await this.serializeWrite(() => this.writeManifest());
+    }
 
     // Update token index if token is present
     if (ref.token) {
       this.Tokens.set(ref.token, ref);
+      await this.serializeWrite(() => this.writeTokenIndex(ref));
     }
 
     return ref;
   }
 
+  public async writePartial(fileName: string, value: any): Promise<void> {
+    // Same location store() uses for a ref with this file name
+    const relative = this.manifest ? path.join(this.manifest.runId, fileName) : fileName;
+    const filePath = path.join(this.outputDir, relative);
+    await fse.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, serializeContent(value));
+  }
+
   public async get(ref: StringRef): Promise<string | undefined> {
     // Read from file
     if (!ref.fileName) {
@@ -74,18 +214,101 @@ export class DirectoryOutputContext implements IFlow {
     }
   }
 
+  public async getJson<T = any>(ref: StringRef): Promise<T | undefined> {
+    const content = await this.get(ref);
+    if (content === undefined) {
+      return undefined;
+    }
+    return parseJsonContent<T>(content, ref);
+  }
+
+  public async getBuffer(ref: StringRef): Promise<Buffer | undefined> {
+    if (!ref.fileName) {
+      throw new Error(`Cannot get reference: fileName is missing. Ref ID: ${ref.id}, Token: ${ref.token || 'none'}`);
+    }
+    const filePath = path.join(this.outputDir, ref.fileName);
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
   async run(command: ICommand): Promise<StringRef[]> {
+    const commandName = command.constructor.name;
+
     // Execute the command
-    const results = await command.execute(this, []) as any as [any, IRefDecorator[]][];    
+    const results = await this.currentCommand.run(
+      commandName,
+      () => command.execute(this, [])
+    ) as any as [any, IRefDecorator[]][];
+
     // Results should be array of [value, decorators[]] tuples
     const refs: StringRef[] = [];
     for (const [value, decorators] of results) {     
-        const ref = await this.set(value, decorators);
+        const ref = await this.store(value, decorators, commandName);
         refs.push(ref);    
     }
     
     return refs;
   }
+
+  async runAll(commands: ICommand[], options?: RunAllOptions): Promise<StringRef[][]> {
+    return runConcurrently(this, commands, options);
+  }
+
+  /**
+   * Load tokens persisted by previous runs into the in-memory token map
+   * @param tokens - Token names to load
+   * @returns The loaded references, in the order requested
+   * @throws Error if a token is not present in the on-disk index
+   */
+  async loadTokens(tokens: string[]): Promise<StringRef[]> {
+    const index = await readTokenIndex(this.outputDir);
+    const refs: StringRef[] = [];
+
+    for (const token of tokens) {
+      const ref = index[token];
+      if (!ref) {
+        const available = Object.keys(index);
+        throw new Error(
+          `Reference token not found: ${token}\n\n` +
+          `Available tokens: ${available.length > 0 ? available.join(', ') : 'none'}`
+        );
+      }
+      this.Tokens.set(token, ref);
+      refs.push(ref);
+    }
+
+    return refs;
+  }
+
+  /**
+   * Queue an index write behind any pending ones so concurrent commands can't interleave them
+   */
+  private serializeWrite(write: () => Promise<void>): Promise<void> {
+    const pending = this.indexWrites.then(write);
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.indexWrites = pending.catch(() => {});
+    return pending;
+  }
+
+  /**
+   * Write the run manifest to the run directory
+   */
+  private async writeManifest(): Promise<void> {
+    const manifestPath = path.join(this.outputDir, this.manifest!.runId, MANIFEST_FILE);
+    await fse.writeJson(manifestPath, this.manifest, { spaces: 2 });
+  }
+
+  /**
+   * Merge a tokenized reference into the on-disk token index
+   */
+  private async writeTokenIndex(ref: StringRef): Promise<void> {
+    const index = await readTokenIndex(this.outputDir);
+    index[ref.token!] = ref;
+    await fse.writeJson(path.join(this.outputDir, TOKEN_INDEX_FILE), index, { spaces: 2 });
+  }
   
   
   /**
@@ -0,0 +1,261 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * File globbing with .gitignore support used by GlobReadCommand
+ *
+ * Pattern syntax:
+ *   *        any characters except /
+ *   **       any number of directories (`src/**\/*.ts`)
+ *   ?        one character except /
+ *   [abc]    character class ([!abc] negates)
+ *   {ts,js}  alternatives
+ *   !pattern exclude matches (in a pattern list)
+ *
+ * Wildcards do not match names starting with '.' unless `dot` is set (`.github/*.yml`
+ * still matches, since the dot is spelled out), and `.git` is never entered. .gitignore files in the working directory and every directory
+ * walked are honoured, including negated (`!keep.log`) and directory-only (`build/`) rules.
+ */
+
+/**
+ * Options for findFiles
+ */
+export interface GlobOptions {
+  /** Directory patterns are relative to */
+  cwd: string;
+  /** Additional patterns to exclude */
+  ignore?: string[];
+  /** Honour .gitignore files (default true) */
+  gitignore?: boolean;
+  /** Let wildcards match names starting with '.' (default false) */
+  dot?: boolean;
+}
+
+/**
+ * A parsed .gitignore line
+ */
+export interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * The rules from one .gitignore file, relative to its directory
+ */
+interface IgnoreFile {
+  /** Directory of the .gitignore, relative to cwd ('' for cwd itself) */
+  base: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole relative paths
+ * @param dot - Let wildcards match names starting with '.'
+ */
+export function globToRegExp(pattern: string, dot = false): RegExp {
+  return new RegExp(`^${globToRegExpSource(pattern, dot)}$`);
+}
+
+/**
+ * Regular expression source for a glob pattern (without anchors)
+ */
+function globToRegExpSource(pattern: string, dot: boolean): string {
+  // Wildcards at the start of a name must not match a leading dot
+  const noDot = dot ? '' : '(?!\\.)';
+  const segment = `${noDot}[^/]+`;
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (atSegmentStart && pattern[i + 2] === '/') {
+        source += `(?:${segment}/)*`;
+        i += 2;
+      } else if (atSegmentStart && i + 2 === pattern.length) {
+        source += `${segment}(?:/${segment})*`;
+        i += 1;
+      } else {
+        source += (atSegmentStart ? noDot : '') + '[^/]*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += (atSegmentStart ? noDot : '') + '[^/]*';
+    } else if (char === '?') {
+      source += (atSegmentStart ? noDot : '') + '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const alternatives = pattern.slice(i + 1, end).split(',').map(alternative => globToRegExpSource(alternative, dot));
+        source += `(?:${alternatives.join('|')})`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += '\\' + pattern[++i];
+    } else {
+      source += /[.+^$()|\]\\]/.test(char) ? '\\' + char : char;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Parse the lines of a .gitignore file
+ */
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+
+    // A slash at the start or in the middle anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+
+    const source = globToRegExpSource(line, true);
+    rules.push({
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negate,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Check a path against the loaded .gitignore files (the last matching rule wins)
+ */
+function isIgnored(relativePath: string, isDirectory: boolean, ignoreFiles: IgnoreFile[]): boolean {
+  let ignored = false;
+
+  for (const file of ignoreFiles) {
+    if (file.base && !relativePath.startsWith(file.base + '/')) continue;
+    const localPath = file.base ? relativePath.slice(file.base.length + 1) : relativePath;
+
+    for (const rule of file.rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(localPath)) {
+        ignored = !rule.negate;
+      }
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Load the .gitignore in a directory, if any
+ */
+async function loadIgnoreFile(directory: string, base: string): Promise<IgnoreFile | undefined> {
+  try {
+    const content = await fs.readFile(path.join(directory, '.gitignore'), 'utf-8');
+    return { base, rules: parseGitignore(content) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find files matching glob patterns
+ * @returns Paths relative to `cwd` with forward slashes, sorted
+ */
+export async function findFiles(patterns: string | string[], options: GlobOptions): Promise<string[]> {
+  const list = (Array.isArray(patterns) ? patterns : [patterns]).map(pattern => pattern.replace(/\\/g, '/'));
+  const include = list.filter(pattern => !pattern.startsWith('!'));
+  const exclude = [
+    ...list.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1)),
+    ...(options.ignore || []),
+  ].map(pattern => globToRegExp(pattern.replace(/^\.\//, ''), true));
+
+  const found = new Set<string>();
+
+  for (const pattern of include) {
+    const normalized = pattern.replace(/^\.\//, '');
+    const regex = globToRegExp(normalized, options.dot);
+
+    // Walk only below the pattern's static prefix (e.g. `src` for `src/**/*.ts`)
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => /[*?[{]/.test(segment));
+    const prefix = firstGlob === -1 ? segments.slice(0, -1) : segments.slice(0, firstGlob);
+
+    const ignoreFiles: IgnoreFile[] = [];
+    if (options.gitignore !== false && !prefix.includes('..')) {
+      // .gitignore files between cwd and the start directory also apply
+      for (let depth = 0; depth < prefix.length; depth++) {
+        const base = prefix.slice(0, depth).join('/');
+        const file = await loadIgnoreFile(path.join(options.cwd, ...prefix.slice(0, depth)), base);
+        if (file) ignoreFiles.push(file);
+      }
+    }
+
+    // Dot directories can only match when dot is set or the pattern spells one out
+    const enterDotDirs = options.dot === true || /(^|\/)\.[^./]/.test(normalized);
+    await walk(options.cwd, prefix.join('/'), regex, ignoreFiles, { gitignore: options.gitignore !== false, enterDotDirs }, found);
+  }
+
+  return Array.from(found)
+    .filter(file => !exclude.some(regex => regex.test(file)))
+    .sort();
+}
+
+/**
+ * Recursively collect files under a directory that match a pattern
+ */
+async function walk(
+  cwd: string,
+  relativeDir: string,
+  regex: RegExp,
+  ignoreFiles: IgnoreFile[],
+  settings: { gitignore: boolean; enterDotDirs: boolean },
+  found: Set<string>
+): Promise<void> {
+  const directory = path.join(cwd, relativeDir);
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  if (settings.gitignore) {
+    const file = await loadIgnoreFile(directory, relativeDir);
+    if (file) ignoreFiles = [...ignoreFiles, file];
+  }
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+    const isDirectory = entry.isDirectory();
+    if (entry.name === '.git' || (isDirectory && !settings.enterDotDirs && entry.name.startsWith('.'))) continue;
+
+    if (settings.gitignore && isIgnored(relativePath, isDirectory, ignoreFiles)) continue;
+
+    if (isDirectory) {
+      await walk(cwd, relativePath, regex, ignoreFiles, settings, found);
+    } else if (entry.isFile() && regex.test(relativePath)) {
+      found.add(relativePath);
+    }
+  }
+}
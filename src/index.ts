@@ -11,6 +11,7 @@ import { formatError, formatCommandList } from './formatters.js';
 import { OptionResolver } from './option-resolver.js';
 import { ContextBuilder } from './context-builder.js';
 import { ResultPresenter } from './result-presenter.js';
+import { ExecutionContext } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -78,8 +79,13 @@ async function main() {
     .option('-s, --summary', 'Summary output with cards (default)')
     .option('-v, --verbose', 'Detailed output with progress')
     .option('--dry-run', 'Show what would be executed without running it')
+    .option('--backup', 'Keep <file>.backup copies of files before WriteCommand changes them')
+    .option('--answer <id=value>', 'Answer a QuestionCommand by id (repeatable)', (value: string, previous: string[]) => [...previous, value], [])
+    .option('--answers <file>', 'JSON file of QuestionCommand answers keyed by id')
+    .option('--non-interactive', 'Never prompt; unanswered questions without a default fail')
     .option('--ref <token...>', 'Reference token(s) to load')
-    .option('--dir <path>', 'Write output to custom directory path');
+    .option('--dir <path>', 'Write output to custom directory path')
+    .option('--no-persist', 'Keep outputs in memory instead of writing them to the output directory');
 
   // Dynamically register all loaded commands as Commander commands
   const commands = router.listCommands();
@@ -107,9 +113,24 @@ async function main() {
         const verbosity = optionResolver.resolveVerbosity(globalOpts);
         const outputDir = optionResolver.resolveOutputDir(cwd, globalOpts, config);
         const dryRun = globalOpts.dryRun || false;
+        const backup = globalOpts.backup || false;
+        const persist = optionResolver.resolvePersist(globalOpts, config);
         
-        // Build execution context
-        const context = contextBuilder.build(outputDir, verbosity, dryRun);
+        const nonInteractive = globalOpts.nonInteractive || false;
+        
+        const refs: string[] = globalOpts.ref || [];
+        
+        // Build execution context (preloads --ref tokens from previous runs)
+        let context: ExecutionContext;
+        try {
+          const answers = await optionResolver.resolveAnswers(cwd, globalOpts, config);
+          context = await contextBuilder.build(outputDir, verbosity, {
+            dryRun, backup, refs, taskName: cmd.name, persist, answers, nonInteractive,
+          });
+        } catch (error: any) {
+          console.error(formatError(error.message));
+          process.exit(1);
+        }
         
         try {
           // Get remaining arguments (Commander puts them in commandArgs)
@@ -0,0 +1,190 @@
+/**
+ * JSONPath query evaluation used by JsonQueryCommand
+ *
+ * Supported syntax (a practical subset of JSONPath):
+ *   $                    root (optional: `user.name` is the same as `$.user.name`)
+ *   .key  ['key']        child property
+ *   [0]  [-1]            array index (negative counts from the end)
+ *   [0:2]  [1:]          array slice
+ *   .*  [*]              every child
+ *   ..key                every descendant named `key`
+ *   [?(@.state == 'open')]  filter with ==, !=, <, <=, >, >= or existence (`[?(@.key)]`)
+ *
+ * A path made only of properties and indexes returns a single value (undefined when
+ * missing); a path with wildcards, slices, filters or `..` returns an array of matches.
+ */
+
+type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string | null }
+  | { type: 'filter'; path: (string | number)[]; operator?: string; value?: any };
+
+/**
+ * Evaluate a JSONPath expression against a value
+ * @throws Error if the expression is malformed
+ */
+export function queryJson(data: any, expression: string): any {
+  const segments = parseJsonPath(expression);
+  let matches: any[] = [data];
+
+  for (const segment of segments) {
+    matches = matches.flatMap(value => applySegment(value, segment));
+  }
+
+  const definite = segments.every(segment => segment.type === 'key' || segment.type === 'index');
+  return definite ? matches[0] : matches;
+}
+
+/**
+ * Parse a JSONPath expression into segments
+ */
+function parseJsonPath(expression: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = expression.trim();
+
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+  } else if (rest.length > 0 && !rest.startsWith('.') && !rest.startsWith('[')) {
+    rest = '.' + rest;
+  }
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\.\.(\*|[^.[\]\s]+)?/))) {
+      segments.push({ type: 'descendant', key: match[1] && match[1] !== '*' ? match[1] : null });
+    } else if ((match = rest.match(/^\.\*/)) || (match = rest.match(/^\[\s*\*\s*\]/))) {
+      segments.push({ type: 'wildcard' });
+    } else if ((match = rest.match(/^\.([^.[\]\s]+)/))) {
+      segments.push({ type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\[\s*'([^']*)'\s*\]/)) || (match = rest.match(/^\[\s*"([^"]*)"\s*\]/))) {
+      segments.push({ type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\[\s*(-?\d+)\s*\]/))) {
+      segments.push({ type: 'index', index: parseInt(match[1], 10) });
+    } else if ((match = rest.match(/^\[\s*(-?\d*)\s*:\s*(-?\d*)\s*\]/))) {
+      segments.push({
+        type: 'slice',
+        start: match[1] ? parseInt(match[1], 10) : undefined,
+        end: match[2] ? parseInt(match[2], 10) : undefined,
+      });
+    } else if ((match = rest.match(/^\[\s*\?\(\s*@((?:\.[\w$-]+|\[\d+\])*)\s*(?:(==|!=|<=|>=|<|>)\s*('[^']*'|"[^"]*"|[^)\s]+))?\s*\)\s*\]/))) {
+      segments.push({
+        type: 'filter',
+        path: parseFilterPath(match[1]),
+        operator: match[2],
+        value: match[3] !== undefined ? parseLiteral(match[3]) : undefined,
+      });
+    } else {
+      throw new Error(`Invalid JSONPath expression: ${expression} (near "${rest}")`);
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Parse the `@.a.b[0]` part of a filter into keys and indexes
+ */
+function parseFilterPath(path: string): (string | number)[] {
+  const parts: (string | number)[] = [];
+  for (const match of path.matchAll(/\.([\w$-]+)|\[(\d+)\]/g)) {
+    parts.push(match[1] !== undefined ? match[1] : parseInt(match[2], 10));
+  }
+  return parts;
+}
+
+/**
+ * Parse a filter comparison literal
+ */
+function parseLiteral(raw: string): any {
+  if (/^'.*'$|^".*"$/.test(raw)) {
+    return raw.slice(1, -1);
+  }
+  if (raw === 'true' || raw === 'false') {
+    return raw === 'true';
+  }
+  if (raw === 'null') {
+    return null;
+  }
+  const number = Number(raw);
+  return isNaN(number) ? raw : number;
+}
+
+/**
+ * Apply one segment to a value, returning the matches
+ */
+function applySegment(value: any, segment: PathSegment): any[] {
+  switch (segment.type) {
+    case 'key':
+      return value !== null && typeof value === 'object' && segment.key in value ? [value[segment.key]] : [];
+
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+
+    case 'slice':
+      return Array.isArray(value) ? value.slice(segment.start, segment.end) : [];
+
+    case 'wildcard':
+      return children(value);
+
+    case 'descendant': {
+      const results: any[] = [];
+      const visit = (node: any) => {
+        if (node === null || typeof node !== 'object') return;
+        if (segment.key === null) {
+          results.push(...children(node));
+        } else if (!Array.isArray(node) && segment.key in node) {
+          results.push(node[segment.key]);
+        }
+        children(node).forEach(visit);
+      };
+      visit(value);
+      return results;
+    }
+
+    case 'filter':
+      return children(value).filter(item => matchesFilter(item, segment));
+  }
+}
+
+/**
+ * Child values of an array or object
+ */
+function children(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+/**
+ * Check whether an item satisfies a filter segment
+ */
+function matchesFilter(item: any, segment: PathSegment & { type: 'filter' }): boolean {
+  let actual = item;
+  for (const part of segment.path) {
+    if (actual === null || typeof actual !== 'object') {
+      actual = undefined;
+      break;
+    }
+    actual = actual[part];
+  }
+
+  switch (segment.operator) {
+    case undefined: return actual !== undefined && actual !== null && actual !== false;
+    case '==': return actual === segment.value;
+    case '!=': return actual !== segment.value;
+    case '<': return actual < segment.value;
+    case '<=': return actual <= segment.value;
+    case '>': return actual > segment.value;
+    case '>=': return actual >= segment.value;
+    default: return false;
+  }
+}
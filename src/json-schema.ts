@@ -0,0 +1,152 @@
+/**
+ * JSON Schema validation used by ParseJsonResponseCommand
+ *
+ * Supports the subset of JSON Schema that agent response contracts need:
+ *   type (string or array; 'integer' is a whole number)
+ *   enum, const
+ *   properties, required, additionalProperties (boolean or schema)
+ *   items (schema), minItems, maxItems
+ *   minLength, maxLength, pattern
+ *   minimum, maximum
+ *   anyOf, oneOf
+ *
+ * Unknown keywords are ignored, so full JSON Schema documents still load.
+ */
+
+/**
+ * A JSON Schema document (only the keywords listed above are enforced)
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Validate a value against a schema
+ * @returns One message per violation, prefixed with its path (e.g. `$.files[0].path`); empty when valid
+ */
+export function validateJsonSchema(value: any, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      // Further checks would only repeat the type mismatch
+      return errors;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option: any) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} character(s)`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} character(s)`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} item(s)`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`));
+      });
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}.${key}`;
+      if (key in properties) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], propertyPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${propertyPath}: unexpected property`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, propertyPath));
+      }
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matched = schema.anyOf.some((option: JsonSchema) => validateJsonSchema(value, option, path).length === 0);
+    if (!matched) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((option: JsonSchema) => validateJsonSchema(value, option, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed schemas (matched ${matches})`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a value against a single JSON Schema type name
+ */
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default: return true;
+  }
+}
+
+/**
+ * JSON Schema type name of a value, for error messages
+ */
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Structural equality for JSON values
+ */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+}
@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import fse from 'fs-extra';
+import {
+  IFlow,
+  ICommand,
+  IOutputSynk,
+  IRefDecorator,
+  StringRef,
+  RunAllOptions,
+} from './types.js';
+import { runConcurrently } from './run-all.js';
+import { detectContentType, getContentDefaults, parseJsonContent, serializeContent } from './ref-content.js';
+
+/**
+ * Options for the in-memory workflow context
+ */
+export interface MemoryFlowOptions {
+  /** Directory to spill large values to; when omitted everything stays in memory */
+  spillDir?: string;
+  /** Values larger than this many bytes are spilled to spillDir (default: 1 MB) */
+  spillThreshold?: number;
+}
+
+/**
+ * Workflow context that keeps all outputs in memory
+ * 
+ * Implements the full IFlow contract (including the Tokens map) without touching the disk,
+ * which makes it suited for unit tests and throwaway pipelines. Large values can optionally
+ * be spilled to a directory to bound memory use.
+ * 
+ * Usage:
+ *   const flow = new MemoryFlow(process.cwd());
+ *   const refs = await flow.run(new SetCommand('Hello', 'greeting'));
+ */
+export class MemoryFlow implements IFlow {
+  public Tokens: Map<string, StringRef>;
+  public verbosity?: string;
+  public config?: Record<string, any>;
+  public outputSynk?: IOutputSynk;
+  private values: Map<string, Buffer>;
+  private spillDir?: string;
+  private spillThreshold: number;
+
+  constructor(public cwd: string, verbosity: string = 'summary', config?: Record<string, any>, options: MemoryFlowOptions = {}) {
+    this.Tokens = new Map();
+    this.values = new Map();
+    this.verbosity = verbosity;
+    this.config = config;
+    this.spillDir = options.spillDir;
+    this.spillThreshold = options.spillThreshold ?? 1024 * 1024;
+  }
+
+  public async set(value: any, decorators?: IRefDecorator[]): Promise<StringRef> {
+    const id = uuidv4();
+    const contentType = detectContentType(value);
+    const { mimeType, extension } = getContentDefaults(contentType);
+    let ref: StringRef = {
+      id,
+      fileName: `${id}.${extension}`,
+      timestamp: new Date(),
+      contentType,
+      mimeType,
+    };
+
+    // Apply decorators
+    if (decorators) {
+      for (const decorator of decorators) {
+        ref = decorator.decorate(ref);
+      }
+    }
+
+    const content = serializeContent(value);
+
+    // Spill large values to disk when configured, otherwise keep them in memory
+    if (this.spillDir && content.length > this.spillThreshold) {
+      const filePath = path.join(this.spillDir, ref.fileName);
+      await fse.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, content);
+    } else {
+      this.values.set(ref.id, content);
+    }
+
+    // Update token index if token is present
+    if (ref.token) {
+      this.Tokens.set(ref.token, ref);
+    }
+
+    return ref;
+  }
+
+  public async get(ref: StringRef): Promise<string | undefined> {
+    const content = await this.getBuffer(ref);
+    return content?.toString('utf-8');
+  }
+
+  public async getJson<T = any>(ref: StringRef): Promise<T | undefined> {
+    const content = await this.get(ref);
+    if (content === undefined) {
+      return undefined;
+    }
+    return parseJsonContent<T>(content, ref);
+  }
+
+  public async getBuffer(ref: StringRef): Promise<Buffer | undefined> {
+    const content = this.values.get(ref.id);
+    if (content !== undefined) {
+      return content;
+    }
+
+    // Fall back to spilled values
+    if (this.spillDir && ref.fileName) {
+      try {
+        return await fs.readFile(path.join(this.spillDir, ref.fileName));
+      } catch (error) {
+        return undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  async run(command: ICommand): Promise<StringRef[]> {
+    // Execute the command
+    const results = await command.execute(this, []);
+    // Results should be array of [value, decorators[]] tuples
+    const refs: StringRef[] = [];
+    for (const [value, decorators] of results) {
+      const ref = await this.set(value, decorators);
+      refs.push(ref);
+    }
+
+    return refs;
+  }
+
+  async runAll(commands: ICommand[], options?: RunAllOptions): Promise<StringRef[][]> {
+    return runConcurrently(this, commands, options);
+  }
+
+  /**
+   * Clear all stored values (spilled files are left in place)
+   */
+  clear(): void {
+    this.Tokens.clear();
+    this.values.clear();
+  }
+}
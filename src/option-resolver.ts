@@ -1,4 +1,5 @@
 import path from 'path';
+import { promises as fs } from 'fs';
 import { VerbosityLevel } from './types.js';
 import { formatError } from './formatters.js';
 
@@ -30,6 +31,53 @@ export class OptionResolver {
     return path.join(cwd, config.outputDir);
   }
 
+  /**
+   * Resolves whether outputs are persisted to disk
+   * --no-persist wins over config; config.persist === false disables persistence by default
+   */
+  resolvePersist(globalOpts: any, config: Record<string, any>): boolean {
+    if (globalOpts.persist === false) {
+      return false;
+    }
+    return config.persist !== false;
+  }
+
+  /**
+   * Resolves QuestionCommand answers from --answers <file> (or config.answersFile) and --answer id=value
+   * Answers given with --answer win over the file
+   * @throws Error if the file cannot be read or an --answer option has no `=`
+   */
+  async resolveAnswers(cwd: string, globalOpts: any, config: Record<string, any>): Promise<Record<string, string>> {
+    const answers: Record<string, string> = {};
+
+    const answersFile = globalOpts.answers || config.answersFile;
+    if (answersFile) {
+      const filePath = path.resolve(cwd, answersFile);
+      let parsed: any;
+      try {
+        parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch (error: any) {
+        throw new Error(`Cannot read answers file ${filePath}: ${error.message}`);
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Answers file ${filePath} must contain a JSON object of answers keyed by question id`);
+      }
+      for (const [id, value] of Object.entries(parsed)) {
+        answers[id] = String(value);
+      }
+    }
+
+    for (const option of globalOpts.answer || []) {
+      const separator = option.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid --answer "${option}": expected id=value`);
+      }
+      answers[option.slice(0, separator)] = option.slice(separator + 1);
+    }
+
+    return answers;
+  }
+
   /**
    * Validates that only one verbosity flag is specified
    * @throws Error if multiple verbosity flags are present
@@ -1,10 +1,12 @@
 import chalk from 'chalk';
-import { ICardBuilder, IOutputSynk, VerbosityLevel } from "./types";
+import ora from 'ora';
+import { ICardBuilder, IOutputSynk, IProgressArea, VerbosityLevel } from "./types";
 
 export class ConsoleOutputBuilder implements IOutputSynk {
   private cards: ICardBuilder[];
   private logs: string[] = [];
   private filesCreated: string[] = [];
+  private progressActive = false;
   
   constructor(private verbosity: VerbosityLevel) {
     this.cards = [];
@@ -134,6 +136,51 @@ export class ConsoleOutputBuilder implements IOutputSynk {
     }
   }
   
+  // === Live progress ===
+
+  startProgress(title: string): IProgressArea {
+    // One spinner at a time; concurrent steps (e.g. parallel agents) only log their outcome
+    if (!this.shouldShow('summary') || this.progressActive) {
+      return {
+        update: () => {},
+        stop: (success: boolean, message?: string) => {
+          this.logs.push(`${success ? '[DONE]' : '[FAILED]'} ${message ?? title}`);
+        },
+      };
+    }
+    this.progressActive = true;
+
+    const started = Date.now();
+    let lines: string[] = [];
+    // discardStdin would swallow input meant for interactive commands
+    const spinner = ora({ text: title, discardStdin: false }).start();
+    const render = () => {
+      const header = `${title} ${chalk.gray(`(${formatElapsed(Date.now() - started)})`)}`;
+      spinner.text = [header, ...lines.map(line => chalk.gray(`  ${line}`))].join('\n');
+    };
+    // Keep the elapsed time current between output updates
+    const timer = setInterval(render, 1000);
+    timer.unref();
+
+    return {
+      update: (latest: string[]) => {
+        lines = latest;
+        render();
+      },
+      stop: (success: boolean, message?: string) => {
+        clearInterval(timer);
+        this.progressActive = false;
+        const text = `${message ?? title} ${chalk.gray(`(${formatElapsed(Date.now() - started)})`)}`;
+        if (success) {
+          spinner.succeed(text);
+        } else {
+          spinner.fail(text);
+        }
+        this.logs.push(`${success ? '[DONE]' : '[FAILED]'} ${message ?? title}`);
+      },
+    };
+  }
+
   // === Helper methods ===
   
   private shouldShow(level: VerbosityLevel): boolean {
@@ -149,3 +196,14 @@ export class ConsoleOutputBuilder implements IOutputSynk {
     return this.logs;
   }
 }
+
+/**
+ * Format a duration as seconds, or minutes and seconds past a minute
+ */
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,531 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ICommand, IFlow, StringRef, ICardBuilder, IRefDecorator } from './types.js';
+import { TokenDecorator } from './decorators.js';
+import { TOKEN_PATTERN, SINGLE_TOKEN_PATTERN } from './template-engine.js';
+import { SetCommand } from './commands/set.js';
+import { ReadCommand } from './commands/read.js';
+import { WriteCommand } from './commands/write.js';
+import { GlobReadCommand } from './commands/glob-read.js';
+import { WriteManyCommand } from './commands/write-many.js';
+import { DiffCommand } from './commands/diff.js';
+import { ApplyPatchCommand } from './commands/apply-patch.js';
+import { TemplateCommand } from './commands/template.js';
+import { MatchCommand } from './commands/match.js';
+import { ReplaceCommand } from './commands/replace.js';
+import { JoinCommand } from './commands/join.js';
+import { JsonQueryCommand } from './commands/json-query.js';
+import { CsvParseCommand } from './commands/csv-parse.js';
+import { CsvWriteCommand } from './commands/csv-write.js';
+import { YamlParseCommand } from './commands/yaml-parse.js';
+import { YamlStringifyCommand } from './commands/yaml-stringify.js';
+import { ExtractCodeBlocksCommand } from './commands/extract-code-blocks.js';
+import { ParseJsonResponseCommand } from './commands/parse-json-response.js';
+import { ExecCommand } from './commands/exec.js';
+import { ShellCommand } from './commands/shell.js';
+import { HttpCommand } from './commands/http.js';
+import { IfCommand } from './commands/if.js';
+import { ForEachCommand } from './commands/for-each.js';
+import { WhileCommand } from './commands/while.js';
+import { ParallelCommand } from './commands/parallel.js';
+import { AgentCommand } from './commands/agents/agent.js';
+import { loadAgentConfigByName } from './commands/agents/config-loader.js';
+
+/**
+ * A single step in a declarative pipeline file
+ */
+export interface PipelineStep {
+  /** Command type (set, read, write, glob, write-many, diff, apply-patch, template, match, replace, join, query, extract-code, parse-json, agent, exec, http, if, foreach, while, parallel, ...) */
+  type: string;
+  /** Optional human-readable step name used in progress and error messages */
+  name?: string;
+  /** Command arguments; string values may reference earlier outputs with {{token}} */
+  args?: Record<string, any>;
+  /** Token name(s) assigned to the step's outputs, in order */
+  as?: string | string[];
+}
+
+/**
+ * Declarative pipeline definition loaded from YAML or JSON
+ */
+export interface PipelineDefinition {
+  /** Pipeline name */
+  name?: string;
+  /** Description shown in output */
+  description?: string;
+  /** Variables stored as tokens before the first step */
+  vars?: Record<string, any>;
+  /** Steps executed in order */
+  steps: PipelineStep[];
+}
+
+/**
+ * Result of executing a single pipeline step
+ */
+export interface PipelineStepResult {
+  step: PipelineStep;
+  refs: StringRef[];
+  duration: number;
+}
+
+/**
+ * Helpers available to step builders for resolving arguments against the running pipeline
+ */
+export interface PipelineRuntime {
+  /** The flow the pipeline executes against */
+  flow: IFlow;
+  /** Configuration object (used to resolve agents) */
+  config: Record<string, any>;
+  /** Look up an output token; throws if the token is unknown */
+  lookup(token: string): StringRef;
+  /**
+   * Resolve a value to a StringRef
+   * `{{token}}` returns that token's ref; any other value is interpolated and stored
+   */
+  toRef(value: any): Promise<StringRef>;
+  /** Replace every {{token}} in a string with the token's text value */
+  interpolate(value: string): Promise<string>;
+  /** Execute nested steps (used by control-flow steps) */
+  runSteps(steps: PipelineStep[]): Promise<PipelineStepResult[]>;
+}
+
+/**
+ * Builds the ICommand for a step from its arguments
+ */
+export type StepBuilder = (args: Record<string, any>, runtime: PipelineRuntime) => ICommand | Promise<ICommand>;
+
+/**
+ * Wraps a command and assigns token names to its outputs in order
+ */
+class NamedOutputCommand implements ICommand {
+  constructor(private inner: ICommand, private names: string[]) {}
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    const results = await this.inner.execute(context, args, cardBuilder);
+    return results.map(([value, decorators], i) => {
+      const name = this.names[i];
+      return name ? [value, [...decorators, new TokenDecorator(name)]] : [value, decorators];
+    });
+  }
+}
+
+/**
+ * Runs nested pipeline steps as a single command (used by control-flow steps)
+ * Outputs are stored by the nested steps themselves, so nothing is returned
+ */
+class NestedStepsCommand implements ICommand {
+  constructor(private steps: PipelineStep[], private runtime: PipelineRuntime) {}
+
+  async execute(
+    context: IFlow,
+    args: any[],
+    cardBuilder?: ICardBuilder
+  ): Promise<[any, IRefDecorator[]][]> {
+    await this.runtime.runSteps(this.steps);
+    return [];
+  }
+}
+
+/**
+ * Require an argument to be present on a step
+ */
+function requireArg(args: Record<string, any>, key: string, type: string): any {
+  if (args[key] === undefined || args[key] === null) {
+    throw new Error(`Step "${type}" requires the "${key}" argument`);
+  }
+  return args[key];
+}
+
+/**
+ * Built-in step types
+ */
+const BUILTIN_STEPS: Record<string, StepBuilder> = {
+  set: async (args, runtime) => {
+    const value = requireArg(args, 'value', 'set');
+    return new SetCommand(typeof value === 'string' ? await runtime.interpolate(value) : value);
+  },
+
+  read: async (args, runtime) =>
+    new ReadCommand(await runtime.interpolate(requireArg(args, 'file', 'read')), { binary: args.binary }),
+
+  write: async (args, runtime) =>
+    new WriteCommand(
+      await runtime.interpolate(requireArg(args, 'file', 'write')),
+      await runtime.toRef(requireArg(args, 'content', 'write')),
+      { append: args.append, backup: args.backup }
+    ),
+
+  glob: async (args, runtime) => {
+    const patterns: string[] = [];
+    const pattern = requireArg(args, 'pattern', 'glob');
+    for (const value of Array.isArray(pattern) ? pattern : [pattern]) {
+      patterns.push(await runtime.interpolate(String(value)));
+    }
+    return new GlobReadCommand(patterns, {
+      format: args.format,
+      ignore: args.ignore,
+      gitignore: args.gitignore,
+      dot: args.dot,
+      optional: args.optional,
+    });
+  },
+
+  'write-many': async (args, runtime) =>
+    new WriteManyCommand(await runtime.toRef(requireArg(args, 'files', 'write-many')), {
+      baseDir: args.dir ? await runtime.interpolate(args.dir) : undefined,
+      overwrite: args.overwrite,
+    }),
+
+  diff: async (args, runtime) => {
+    // `old`/`new` are values or {{token}} refs; `oldFile`/`newFile` name files
+    const side = async (name: string) => args[`${name}File`] !== undefined
+      ? await runtime.interpolate(args[`${name}File`])
+      : await runtime.toRef(requireArg(args, name, 'diff'));
+    return new DiffCommand(await side('old'), await side('new'), { context: args.context });
+  },
+
+  'apply-patch': async (args, runtime) =>
+    new ApplyPatchCommand(await runtime.toRef(requireArg(args, 'patch', 'apply-patch')), {
+      fuzz: args.fuzz,
+      strip: args.strip,
+      failOnReject: args.failOnReject,
+      backup: args.backup,
+    }),
+
+  template: async (args, runtime) => {
+    const template = requireArg(args, 'template', 'template');
+    const match = typeof template === 'string' ? template.match(SINGLE_TOKEN_PATTERN) : null;
+    return new TemplateCommand(match ? runtime.lookup(match[1]) : template, { strict: args.strict });
+  },
+
+  match: async (args, runtime) => {
+    const input = requireArg(args, 'input', 'match');
+    const refs: StringRef[] = [];
+    for (const value of Array.isArray(input) ? input : [input]) {
+      refs.push(await runtime.toRef(value));
+    }
+    return new MatchCommand(
+      refs,
+      new RegExp(requireArg(args, 'pattern', 'match'), args.flags || ''),
+      args.tokens || [],
+      { global: args.global, optional: args.optional }
+    );
+  },
+
+  replace: async (args, runtime) => {
+    const replacements: Record<string, string> = {};
+    for (const [key, value] of Object.entries(args.replacements || {})) {
+      replacements[key] = await runtime.interpolate(String(value));
+    }
+    return new ReplaceCommand(
+      await runtime.toRef(requireArg(args, 'input', 'replace')),
+      replacements,
+      { strict: args.strict, lint: args.lint }
+    );
+  },
+
+  join: async (args, runtime) => {
+    const parts: (string | StringRef)[] = [];
+    for (const part of requireArg(args, 'parts', 'join') as any[]) {
+      const match = typeof part === 'string' ? part.match(SINGLE_TOKEN_PATTERN) : null;
+      parts.push(match ? runtime.lookup(match[1]) : await runtime.interpolate(String(part)));
+    }
+    return new JoinCommand(parts);
+  },
+
+  query: async (args, runtime) =>
+    new JsonQueryCommand(
+      await runtime.toRef(requireArg(args, 'input', 'query')),
+      await runtime.interpolate(requireArg(args, 'path', 'query'))
+    ),
+
+  'csv-parse': async (args, runtime) =>
+    new CsvParseCommand(await runtime.toRef(requireArg(args, 'input', 'csv-parse')), {
+      delimiter: args.delimiter,
+      headers: args.headers,
+    }),
+
+  'csv-write': async (args, runtime) =>
+    new CsvWriteCommand(await runtime.toRef(requireArg(args, 'input', 'csv-write')), {
+      delimiter: args.delimiter,
+      columns: args.columns,
+      headers: args.headers,
+    }),
+
+  'yaml-parse': async (args, runtime) =>
+    new YamlParseCommand(await runtime.toRef(requireArg(args, 'input', 'yaml-parse'))),
+
+  'yaml-stringify': async (args, runtime) =>
+    new YamlStringifyCommand(await runtime.toRef(requireArg(args, 'input', 'yaml-stringify'))),
+
+  'extract-code': async (args, runtime) =>
+    new ExtractCodeBlocksCommand(await runtime.toRef(requireArg(args, 'input', 'extract-code')), {
+      language: args.language,
+      filename: args.filename,
+      required: args.required,
+    }),
+
+  'parse-json': async (args, runtime) =>
+    new ParseJsonResponseCommand(await runtime.toRef(requireArg(args, 'input', 'parse-json')), {
+      schema: args.schema,
+    }),
+
+  exec: async (args, runtime) => {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(args.env || {})) {
+      env[key] = await runtime.interpolate(String(value));
+    }
+    const options = {
+      cwd: args.cwd ? await runtime.interpolate(args.cwd) : undefined,
+      env,
+      stdin: args.stdin !== undefined ? await runtime.toRef(args.stdin) : undefined,
+      timeout: args.timeout,
+      failOnError: args.fail,
+    };
+
+    // `shell` takes a command line; otherwise `command` is run directly with `args`
+    if (args.shell !== undefined) {
+      return new ShellCommand(await runtime.interpolate(args.shell), options);
+    }
+    const programArgs: string[] = [];
+    for (const arg of args.args || []) {
+      programArgs.push(await runtime.interpolate(String(arg)));
+    }
+    return new ExecCommand(await runtime.interpolate(requireArg(args, 'command', 'exec')), programArgs, options);
+  },
+
+  // The URL and headers are interpolated by HttpCommand, which percent-encodes URL values
+  http: async (args, runtime) =>
+    new HttpCommand(requireArg(args, 'url', 'http'), {
+      method: args.method,
+      headers: args.headers,
+      body: args.body !== undefined ? await runtime.toRef(args.body) : undefined,
+      timeout: args.timeout,
+      retries: args.retries,
+      failOnError: args.fail,
+    }),
+
+  if: async (args, runtime) =>
+    new IfCommand(
+      await runtime.toRef(requireArg(args, 'input', 'if')),
+      new RegExp(requireArg(args, 'matches', 'if'), args.flags || ''),
+      [new NestedStepsCommand(requireArg(args, 'then', 'if'), runtime)],
+      args.else ? [new NestedStepsCommand(args.else, runtime)] : []
+    ),
+
+  foreach: async (args, runtime) => {
+    const steps = requireArg(args, 'do', 'foreach');
+    return new ForEachCommand(
+      await runtime.toRef(requireArg(args, 'input', 'foreach')),
+      () => [new NestedStepsCommand(steps, runtime)],
+      { split: args.split, itemToken: args.item }
+    );
+  },
+
+  while: async (args, runtime) => {
+    const input = requireArg(args, 'input', 'while');
+    const pattern = new RegExp(requireArg(args, 'matches', 'while'), args.flags || '');
+    const steps = requireArg(args, 'do', 'while');
+    return new WhileCommand(
+      // Re-resolve the input each iteration so steps in the body can update the token
+      async () => pattern.test(await runtime.interpolate(input)),
+      () => [new NestedStepsCommand(steps, runtime)],
+      { maxIterations: args.max }
+    );
+  },
+
+  parallel: async (args, runtime) => {
+    const steps: PipelineStep[] = requireArg(args, 'steps', 'parallel');
+    // Each step runs as its own branch; steps in one parallel block should not depend on each other
+    return new ParallelCommand(
+      steps.map(step => new NestedStepsCommand([step], runtime)),
+      { concurrency: args.concurrency }
+    );
+  },
+
+  agent: async (args, runtime) => {
+    const agentConfig = loadAgentConfigByName(runtime.config, requireArg(args, 'agent', 'agent'));
+    const prompts = requireArg(args, 'prompt', 'agent');
+    const promptRefs: StringRef[] = [];
+    for (const prompt of Array.isArray(prompts) ? prompts : [prompts]) {
+      promptRefs.push(await runtime.toRef(prompt));
+    }
+    return new AgentCommand(agentConfig, promptRefs);
+  },
+};
+
+/**
+ * Load a pipeline definition from a .yaml, .yml or .json file
+ */
+export async function loadPipeline(filePath: string): Promise<PipelineDefinition> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Pipeline file not found: ${filePath}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let definition: any;
+  try {
+    definition = extension === '.json' ? JSON.parse(data) : YAML.parse(data);
+  } catch (error) {
+    throw new Error(`Failed to parse pipeline ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!definition || !Array.isArray(definition.steps)) {
+    throw new Error(`Invalid pipeline ${filePath}: a "steps" list is required`);
+  }
+
+  definition.steps.forEach((step: any, i: number) => {
+    if (!step || typeof step.type !== 'string') {
+      throw new Error(`Invalid pipeline ${filePath}: step ${i + 1} is missing a "type"`);
+    }
+  });
+
+  return definition as PipelineDefinition;
+}
+
+/**
+ * PipelineRunner - Executes declarative pipeline steps against an IFlow
+ *
+ * Each step is turned into an ICommand and executed with flow.run(). Outputs named
+ * with `as` are tokenized so later steps can reference them with {{token}}.
+ *
+ * Usage:
+ *   const pipeline = await loadPipeline('pipeline.yaml');
+ *   const runner = new PipelineRunner(flow, config);
+ *   const results = await runner.run(pipeline);
+ */
+export class PipelineRunner {
+  private steps: Map<string, StepBuilder>;
+  private tokens: Map<string, StringRef>;
+
+  constructor(
+    private flow: IFlow,
+    private config: Record<string, any> = {},
+    private onStep?: (step: PipelineStep, index: number) => void
+  ) {
+    this.steps = new Map(Object.entries(BUILTIN_STEPS));
+    // Seed with tokens already in the flow (e.g. preloaded with --ref)
+    this.tokens = 'Tokens' in flow && flow.Tokens instanceof Map ? new Map(flow.Tokens) : new Map();
+  }
+
+  /**
+   * Register a custom step type
+   */
+  register(type: string, builder: StepBuilder): void {
+    this.steps.set(type, builder);
+  }
+
+  /**
+   * List registered step types
+   */
+  listStepTypes(): string[] {
+    return Array.from(this.steps.keys());
+  }
+
+  /**
+   * Execute a pipeline definition
+   * @param vars - Variables that override the pipeline's own vars
+   */
+  async run(definition: PipelineDefinition, vars: Record<string, any> = {}): Promise<PipelineStepResult[]> {
+    for (const [name, value] of Object.entries({ ...definition.vars, ...vars })) {
+      const refs = await this.flow.run(new SetCommand(value, name));
+      this.tokens.set(name, refs[0]);
+    }
+
+    return this.runSteps(definition.steps);
+  }
+
+  /**
+   * Execute a list of steps in order
+   */
+  async runSteps(steps: PipelineStep[]): Promise<PipelineStepResult[]> {
+    const results: PipelineStepResult[] = [];
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const label = step.name || step.type;
+      const builder = this.steps.get(step.type);
+
+      if (!builder) {
+        throw new Error(
+          `Unknown pipeline step type: ${step.type}\n\n` +
+          `Available step types: ${this.listStepTypes().join(', ')}`
+        );
+      }
+
+      this.onStep?.(step, i);
+      const startTime = Date.now();
+
+      try {
+        const command = await builder(step.args || {}, this.createRuntime());
+        const names = step.as === undefined ? [] : Array.isArray(step.as) ? step.as : [step.as];
+        const refs = await this.flow.run(names.length > 0 ? new NamedOutputCommand(command, names) : command);
+
+        for (const ref of refs) {
+          if (ref.token) {
+            this.tokens.set(ref.token, ref);
+          }
+        }
+
+        results.push({ step, refs, duration: Date.now() - startTime });
+      } catch (error) {
+        throw new Error(
+          `Pipeline step ${i + 1} (${label}) failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Create the runtime helpers handed to step builders
+   */
+  private createRuntime(): PipelineRuntime {
+    const lookup = (token: string): StringRef => {
+      // Fall back to the flow's tokens for values set by commands (e.g. the ForEach item)
+      const flow = this.flow;
+      const ref: StringRef | undefined = 'Tokens' in flow && flow.Tokens instanceof Map && flow.Tokens.has(token)
+        ? flow.Tokens.get(token)
+        : this.tokens.get(token);
+      if (!ref) {
+        throw new Error(`Unknown token: {{${token}}}`);
+      }
+      return ref;
+    };
+
+    const interpolate = async (value: string): Promise<string> => {
+      let result = '';
+      let lastIndex = 0;
+      for (const match of value.matchAll(TOKEN_PATTERN)) {
+        const content = await this.flow.get(lookup(match[1]));
+        result += value.slice(lastIndex, match.index) + (content ?? '');
+        lastIndex = match.index! + match[0].length;
+      }
+      return result + value.slice(lastIndex);
+    };
+
+    return {
+      flow: this.flow,
+      config: this.config,
+      lookup,
+      interpolate,
+      toRef: async (value: any): Promise<StringRef> => {
+        const match = typeof value === 'string' ? value.match(SINGLE_TOKEN_PATTERN) : null;
+        if (match) {
+          return lookup(match[1]);
+        }
+        return this.flow.set(typeof value === 'string' ? await interpolate(value) : value);
+      },
+      runSteps: (steps: PipelineStep[]) => this.runSteps(steps),
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { IFlow, RefContentType, StringRef } from './types.js';
+
+/**
+ * Helpers for detecting, serializing and parsing typed StringRef content
+ * Shared by IFlow implementations so every flow stores values the same way
+ */
+
+/**
+ * Default MIME type and file extension for each content type
+ */
+const CONTENT_DEFAULTS: Record<RefContentType, { mimeType: string; extension: string }> = {
+  text: { mimeType: 'text/plain', extension: 'txt' },
+  json: { mimeType: 'application/json', extension: 'json' },
+  binary: { mimeType: 'application/octet-stream', extension: 'bin' },
+};
+
+/**
+ * Detect the content type of a value passed to IFlow.set
+ */
+export function detectContentType(value: any): RefContentType {
+  if (typeof value === 'string') {
+    return 'text';
+  }
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return 'binary';
+  }
+  return 'json';
+}
+
+/**
+ * Get the default MIME type and file extension for a content type
+ */
+export function getContentDefaults(contentType: RefContentType): { mimeType: string; extension: string } {
+  return CONTENT_DEFAULTS[contentType];
+}
+
+/**
+ * Serialize a value to the bytes that should be persisted for a reference
+ * - binary values are written as raw bytes
+ * - strings are written as UTF-8 regardless of the declared type
+ * - everything else is JSON-serialized
+ */
+export function serializeContent(value: any): Buffer {
+  if (Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value);
+  }
+  if (typeof value === 'string') {
+    return Buffer.from(value, 'utf-8');
+  }
+  return Buffer.from(JSON.stringify(value, null, 2), 'utf-8');
+}
+
+/**
+ * Parse persisted content as JSON
+ * @throws Error naming the reference if the content is not valid JSON
+ */
+export function parseJsonContent<T = any>(content: string, ref: StringRef): T {
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    throw new Error(
+      `Failed to parse JSON for reference ${ref.token || ref.id}: ` +
+      `${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Retrieve a value parsed as JSON, through get() when the flow has no getJson
+ * @throws Error naming the reference if the content is not valid JSON
+ */
+export async function readJson<T = any>(flow: IFlow, ref: StringRef): Promise<T | undefined> {
+  if (flow.getJson) {
+    return flow.getJson<T>(ref);
+  }
+  const content = await flow.get(ref);
+  return content === undefined ? undefined : parseJsonContent<T>(content, ref);
+}
+
+/**
+ * Retrieve a value as raw bytes, through get() (as UTF-8) when the flow has no getBuffer
+ */
+export async function readBuffer(flow: IFlow, ref: StringRef): Promise<Buffer | undefined> {
+  if (flow.getBuffer) {
+    return flow.getBuffer(ref);
+  }
+  const content = await flow.get(ref);
+  return content === undefined ? undefined : Buffer.from(content, 'utf-8');
+}
@@ -0,0 +1,71 @@
+import { ICommand, IFlow, RunAllOptions, StringRef } from './types.js';
+
+/**
+ * Default number of commands IFlow.runAll executes at once
+ */
+export const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Resolve the concurrency limit from options, then flow config, then the default
+ */
+export function resolveConcurrency(flow: IFlow, options?: RunAllOptions): number {
+  const limit = options?.concurrency ?? flow.config?.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid concurrency: ${limit} (expected a positive integer)`);
+  }
+  return limit;
+}
+
+/**
+ * Run commands through a flow with at most `concurrency` in flight at a time
+ * Shared by IFlow implementations so every flow schedules commands the same way.
+ *
+ * Every command runs even when others fail; results are returned in command order.
+ * @throws AggregateError listing every failed command once all commands have settled
+ */
+export async function runConcurrently(
+  flow: IFlow,
+  commands: ICommand[],
+  options?: RunAllOptions
+): Promise<StringRef[][]> {
+  const limit = resolveConcurrency(flow, options);
+  const results: StringRef[][] = new Array(commands.length);
+  const failures: { index: number; error: unknown }[] = [];
+  let next = 0;
+
+  // Each worker pulls the next pending command until none are left
+  const worker = async (): Promise<void> => {
+    while (next < commands.length) {
+      const index = next++;
+      try {
+        results[index] = await flow.run(commands[index]);
+      } catch (error) {
+        results[index] = [];
+        failures.push({ index, error });
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(limit, commands.length) }, () => worker());
+  await Promise.all(workers);
+
+  if (failures.length > 0) {
+    failures.sort((a, b) => a.index - b.index);
+    const details = failures.map(({ index, error }) =>
+      `  [${index}] ${commands[index].constructor.name}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    throw new AggregateError(
+      failures.map(failure => failure.error),
+      `${failures.length} of ${commands.length} command(s) failed:\n${details.join('\n')}`
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Run commands through the flow's runAll, or through runConcurrently when the flow has none
+ */
+export function runAll(flow: IFlow, commands: ICommand[], options?: RunAllOptions): Promise<StringRef[][]> {
+  return flow.runAll ? flow.runAll(commands, options) : runConcurrently(flow, commands, options);
+}
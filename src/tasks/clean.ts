@@ -5,6 +5,7 @@ import { ReferenceHandle, IFlow, IOutputSynk } from '../types.js';
 import { MessageCard } from '../cards/MessageCard.js';
 import { TaskHandler } from '../task-handler.js';
 import { TaskLogger } from '../logging/index.js';
+import { pruneTokenIndex } from '../directory-output-context.js';
 
 /**
  * Clean command - cleans up old log files with configurable retention
@@ -97,6 +98,14 @@ export default class CleanCommand extends TaskHandler {
       }
     }
 
+    // Drop tokens that pointed into deleted run directories
+    if (deletedCount > 0) {
+      const prunedTokens = await pruneTokenIndex(logsDir);
+      if (prunedTokens.length > 0) {
+        logger.info(`Removed ${prunedTokens.length} stale token(s): ${prunedTokens.join(', ')}`);
+      }
+    }
+
     const message = [
       `Cleaned ${deletedCount} old log ${deletedCount === 1 ? 'directory' : 'directories'}`,
       `Retention: ${retentionDays} days`,
@@ -1,14 +1,17 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import fse from 'fs-extra';
-import { ExecutionContext, ReferenceHandle, ITaskHandler, IFlow } from '../types.js';
+import { ExecutionContext, ReferenceHandle, ITaskHandler, IFlow, ICommand, StringRef, IOutputSynk } from '../types.js';
 import { MessageCard } from '../cards/MessageCard.js';
-import { QuestionCommand } from '../commands/question.js';
+import { QuestionCommand, assertAnswered } from '../commands/question.js';
 import { SetCommand } from '../commands/set.js';
-import { AgentCommand, AgentTool } from '../commands/agent.js';
+import { AgentCommand } from '../commands/agents/agent.js';
+import { IAgentConfig } from '../commands/agents/base.js';
 import { WriteCommand } from '../commands/write.js';
 import { JoinCommand } from '../commands/join.js';
-import { getDefaultAgent, getAgentConfig, listAvailableAgents } from '../config-loader.js';
+import { FallbackCommand } from '../commands/fallback.js';
+import { ExtractCodeBlocksCommand } from '../commands/extract-code-blocks.js';
+import { getDefaultAgent, getAgentConfig, getFallbackAgent, listAvailableAgents } from '../config-loader.js';
 
 /**
  * CreateAgent command - scaffolds a new agent task using AI-assisted workflow
@@ -20,6 +23,7 @@ export default class CreateAgentCommand implements ITaskHandler {
     'ot create-agent',
     'ot create-agent my-agent',
     'ot create-agent --cli-agent gemini-default',
+    'ot create-agent --cli-agent gemini-default --fallback-agent claude-default',
   ];
 
   async execute(args: string[], context: ExecutionContext): Promise<ReferenceHandle> {
@@ -32,15 +36,27 @@ export default class CreateAgentCommand implements ITaskHandler {
       ? args[cliAgentIndex + 1] 
       : getDefaultAgent(context.config);
 
+    // Agent to use when the primary agent fails (defaults to a configured Claude agent)
+    const fallbackIndex = args.indexOf('--fallback-agent');
+    const fallbackAgentName = fallbackIndex !== -1 && args[fallbackIndex + 1]
+      ? args[fallbackIndex + 1]
+      : getFallbackAgent(context.config, cliAgentName);
+
+    const nameQuestion = new QuestionCommand('Enter the task name (kebab-case):', { id: 'task-name' });
+    const reqQuestion = new QuestionCommand('Describe what this task should do:', { id: 'requirements' });
+    const hasTaskNameArg = args.length > 0 && !args[0].startsWith('--');
+
+    // In non-interactive mode, report every missing answer before doing any work
+    await assertAnswered(flow, hasTaskNameArg ? [reqQuestion] : [nameQuestion, reqQuestion]);
+
     // Get task name from args or prompt
     let taskName: string;
-    if (args.length > 0 && !args[0].startsWith('--')) {
+    if (hasTaskNameArg) {
       taskName = args[0];
     } else {
       context.outputSynk.write('Starting agent creation workflow...');
       
       // Step 1: Ask for task name
-      const nameQuestion = new QuestionCommand('Enter the task name (kebab-case):');
       const nameRefs = await flow.run(nameQuestion);
       const nameValue = await flow.get(nameRefs[0]);
       if (!nameValue || typeof nameValue !== 'string') {
@@ -76,7 +92,6 @@ export default class CreateAgentCommand implements ITaskHandler {
 
     // Step 2: Ask for task requirements
     context.outputSynk.write('Gathering requirements...');
-    const reqQuestion = new QuestionCommand('Describe what this task should do:');
     const reqRefs = await flow.run(reqQuestion);
     const reqValue = await flow.get(reqRefs[0]);
     if (!reqValue || typeof reqValue !== 'string') {
@@ -105,6 +120,17 @@ export default class CreateAgentCommand implements ITaskHandler {
       );
     }
 
+    const fallbackAgentConfig = fallbackAgentName ? getAgentConfig(context.config, fallbackAgentName) : null;
+    if (fallbackIndex !== -1 && !fallbackAgentConfig) {
+      throw new Error(
+        `Fallback agent "${fallbackAgentName}" not found in configuration. ` +
+        `Available agents: ${listAvailableAgents(context.config).join(', ')}`
+      );
+    }
+    const agents = fallbackAgentConfig
+      ? [{ name: cliAgentName, config: agentConfig }, { name: fallbackAgentName!, config: fallbackAgentConfig }]
+      : [{ name: cliAgentName, config: agentConfig }];
+
     // Step 5: Run agent to create detailed plan
     context.outputSynk.write(`Running agent "${cliAgentName}" to create plan...`);
     if (verbosity === 'verbose') {
@@ -112,7 +138,7 @@ export default class CreateAgentCommand implements ITaskHandler {
     }
     
     try {
-      const agentCommand = new AgentCommand(agentConfig, [promptRefs[0]], planningPromptPath);
+      const agentCommand = this.createAgentCommand(agents, promptRefs[0], planningPromptPath, context.outputSynk);
       const planRefs = await flow.run(agentCommand);
       const planValue = await flow.get(planRefs[0]);
       if (!planValue || typeof planValue !== 'string') {
@@ -136,9 +162,13 @@ export default class CreateAgentCommand implements ITaskHandler {
       }
 
       const confirmQuestion = new QuestionCommand(
-        'Review the spec above. Press Enter to build the task, or Ctrl+C to cancel:'
+        'Review the spec above. Build the task?',
+        { id: 'confirm-build', confirm: true, default: true }
       );
-      await flow.run(confirmQuestion);
+      const confirmRefs = await flow.run(confirmQuestion);
+      if (await flow.get(confirmRefs[0]) !== 'true') {
+        throw new Error(`Cancelled; the spec is saved at ${specPath}`);
+      }
 
       // Step 8: Run agent again to implement the task with wiki documentation
       context.outputSynk.write('Loading framework documentation...');
@@ -157,13 +187,13 @@ export default class CreateAgentCommand implements ITaskHandler {
       
       const implPromptRefs = await flow.run(new SetCommand(implPrompt, 'impl-prompt'));
       
-      const implAgentCommand = new AgentCommand(agentConfig, [implPromptRefs[0]], implPromptPath);
+      const implAgentCommand = this.createAgentCommand(agents, implPromptRefs[0], implPromptPath, context.outputSynk);
       const implRefs = await flow.run(implAgentCommand);
       const implValue = await flow.get(implRefs[0]);
       if (!implValue || typeof implValue !== 'string') {
         throw new Error('Agent failed to generate implementation');
       }
-      const implementation = implValue;
+      const implementation = await this.extractImplementation(flow, implRefs[0], taskName);
 
       // Step 9: Save implementation
       await fs.writeFile(taskPath, implementation, 'utf-8');
@@ -172,7 +202,7 @@ export default class CreateAgentCommand implements ITaskHandler {
         `Created agent task: ${taskName}`,
         `Spec: ${specPath}`,
         `Implementation: ${taskPath}`,
-        `Agent used: ${cliAgentName}`,
+        `Agent used: ${agents[implAgentCommand.usedIndex]?.name || cliAgentName}`,
       ].join('\n');
 
       const details = [
@@ -185,7 +215,7 @@ export default class CreateAgentCommand implements ITaskHandler {
         `  📝 Planning Prompt: ${planningPromptPath}`,
         `  📝 Implementation Prompt: ${implPromptPath}`,
         ``,
-        `Agent: ${cliAgentName}`,
+        `Agent: ${agents[implAgentCommand.usedIndex]?.name || cliAgentName}`,
         ``,
         `Next Steps:`,
         `  1. Review the implementation in ${taskPath}`,
@@ -212,11 +242,29 @@ export default class CreateAgentCommand implements ITaskHandler {
     } catch (error: any) {
       throw new Error(
         `Failed to create agent task: ${error.message}\n\n` +
-        `Make sure the agent "${cliAgentName}" is properly configured and available.`
+        `Make sure the agent "${agents.map(agent => agent.name).join('" or "')}" is properly configured and available.`
       );
     }
   }
 
+  /**
+   * Create an agent command that falls back to the next configured agent on failure
+   */
+  private createAgentCommand(
+    agents: { name: string; config: IAgentConfig }[],
+    promptRef: StringRef,
+    promptFilePath: string,
+    synk: IOutputSynk
+  ): FallbackCommand {
+    const commands: ICommand[] = agents.map(agent => new AgentCommand(agent.config, [promptRef], promptFilePath));
+    return new FallbackCommand(commands, (error, failedIndex) => {
+      synk.write(
+        `Agent "${agents[failedIndex].name}" failed: ${error.message.split('\n')[0]}\n` +
+        `Falling back to agent "${agents[failedIndex + 1].name}"...`
+      );
+    });
+  }
+
   /**
    * Create planning prompt for the agent
    */
@@ -280,6 +328,25 @@ Show the class structure including:
 **Important:** Be specific about command usage, data types, and error handling. The implementation phase will use this plan directly.`;
   }
 
+  /**
+   * Pull the TypeScript source out of the agent's response
+   * Prefers the block annotated with the task's filename, then the first TypeScript block.
+   * A response without fences is assumed to be bare code.
+   */
+  private async extractImplementation(flow: IFlow, responseRef: StringRef, taskName: string): Promise<string> {
+    const extract = new ExtractCodeBlocksCommand(responseRef, { language: 'typescript' });
+    const blockRefs = await flow.run(extract);
+
+    if (blockRefs.length === 0) {
+      const response = await flow.get(responseRef);
+      return (response ?? '').trim() + '\n';
+    }
+
+    const fileIndex = extract.blocks.findIndex(block => block.filename?.endsWith(`${taskName}.ts`));
+    const code = await flow.get(blockRefs[fileIndex === -1 ? 0 : fileIndex]);
+    return (code ?? '').trim() + '\n';
+  }
+
   /**
    * Create implementation prompt for the agent with wiki documentation
    */
@@ -351,13 +418,14 @@ const nextRefs = await flow.run(new NextCommand(refs[0]));
 - Return a meaningful ReferenceHandle
 
 # Output Format
-Provide ONLY the complete TypeScript code. Do not include:
-- Markdown code fences (\`\`\`typescript)
-- Explanations or commentary
-- Import statements for Node.js built-ins unless necessary
-- Any text before or after the code
+Provide the complete TypeScript code in a single fenced block annotated with the file name:
+
+\`\`\`typescript ${taskName}.ts
+// complete implementation
+\`\`\`
 
-The code should be ready to save directly to a .ts file and execute.`;
+Only the contents of that block are saved, so it must be the entire file. Do not include
+import statements for Node.js built-ins unless necessary.`;
   }
 
   /**
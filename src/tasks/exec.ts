@@ -0,0 +1,131 @@
+import { IFlow, IOutputSynk, ReferenceHandle, StringRef } from '../types.js';
+import { TaskHandler } from '../task-handler.js';
+import { TaskLogger } from '../logging/index.js';
+import { KeyValueCard } from '../cards/index.js';
+import { ExecCommand, ExecOptions } from '../commands/exec.js';
+import { ShellCommand } from '../commands/shell.js';
+import { resolvePath } from '../utils.js';
+
+/**
+ * Exec task - runs a program and stores its stdout, stderr and exit code
+ *
+ * With --token <name>, outputs are tokenized as <name>, <name>-stderr and
+ * <name>-exit-code so later runs can reference them with --ref.
+ */
+export default class ExecTask extends TaskHandler {
+  name = 'exec';
+  description = 'Run a program and capture its stdout, stderr and exit code';
+  examples = [
+    'ot exec git status --short',
+    'ot exec --token diff -- git diff --stat',
+    'ot exec --ref report --stdin report -- jq .summary',
+    'ot exec --shell "npm test 2>&1 | tail -n 20" --timeout 600000',
+  ];
+
+  protected async executeCommand(
+    config: Record<string, any>,
+    args: string[],
+    flow: IFlow,
+    synk: IOutputSynk
+  ): Promise<ReferenceHandle> {
+    const logger = new TaskLogger(synk, this.name);
+    const options: ExecOptions = { env: {} };
+    let token: string | undefined;
+    let stdinToken: string | undefined;
+    let shell = false;
+    let commandArgs: string[] = [];
+
+    // Options come first; the program starts at the first other argument (or after --)
+    let i = 0;
+    while (i < args.length) {
+      const arg = args[i];
+      const value = args[i + 1];
+
+      if (arg === '--') {
+        commandArgs = args.slice(i + 1);
+        break;
+      } else if (arg === '--cwd' && value) {
+        options.cwd = resolvePath(value, flow.cwd);
+      } else if (arg === '--env' && value) {
+        const [name, ...rest] = value.split('=');
+        if (!name || rest.length === 0) {
+          throw new Error(`Invalid --env value: ${value} (expected NAME=value)`);
+        }
+        options.env![name] = rest.join('=');
+      } else if (arg === '--stdin' && value) {
+        stdinToken = value;
+      } else if (arg === '--timeout' && value) {
+        options.timeout = parseInt(value, 10);
+        if (isNaN(options.timeout) || options.timeout <= 0) {
+          throw new Error(`Invalid --timeout value: ${value} (expected milliseconds)`);
+        }
+      } else if (arg === '--token' && value) {
+        token = value;
+      } else if (arg === '--shell') {
+        shell = true;
+        i++;
+        continue;
+      } else if (arg === '--fail') {
+        options.failOnError = true;
+        i++;
+        continue;
+      } else {
+        commandArgs = args.slice(i);
+        break;
+      }
+      i += 2;
+    }
+
+    if (commandArgs.length === 0) {
+      logger.error('Program is required');
+      throw new Error(
+        'Usage: ot exec [--cwd <dir>] [--env NAME=value] [--stdin <token>] [--timeout <ms>] ' +
+        '[--token <name>] [--shell] [--fail] [--] <program> [args...]'
+      );
+    }
+
+    if (stdinToken) {
+      const ref: StringRef | undefined = 'Tokens' in flow && flow.Tokens instanceof Map
+        ? flow.Tokens.get(stdinToken)
+        : undefined;
+      if (!ref) {
+        throw new Error(`Unknown token for --stdin: ${stdinToken} (load it with --ref ${stdinToken})`);
+      }
+      options.stdin = ref;
+    }
+
+    if (token) {
+      options.tokens = { stdout: token, stderr: `${token}-stderr`, exitCode: `${token}-exit-code` };
+    }
+
+    const [program, ...programArgs] = commandArgs;
+    const commandLine = commandArgs.join(' ');
+    const command = shell
+      ? new ShellCommand(commandLine, options)
+      : new ExecCommand(program, programArgs, options);
+
+    logger.progress(`Running: ${commandLine}`);
+    const [stdoutRef] = await flow.run(command);
+    const result = command.result!;
+
+    logger.card(new KeyValueCard(
+      result.exitCode === 0 ? '⚙️ Command Completed' : '❌ Command Failed',
+      {
+        Command: commandLine.length > 100 ? commandLine.substring(0, 100) + '...' : commandLine,
+        'Exit Code': result.exitCode,
+        Stdout: `${result.stdout.length} characters`,
+        Stderr: `${result.stderr.length} characters`,
+        ...(token ? { Tokens: `${token}, ${token}-stderr, ${token}-exit-code` } : {}),
+      },
+      result.exitCode === 0 ? 'success' : 'error'
+    ));
+    logger.complete();
+
+    return {
+      id: stdoutRef.id,
+      token: token || 'exec',
+      content: result.stdout,
+      timestamp: new Date(),
+    };
+  }
+}
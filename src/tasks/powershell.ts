@@ -0,0 +1,125 @@
+import { ReferenceHandle, IOutputSynk, IFlow, StringRef } from '../types.js';
+import { TaskHandler } from '../task-handler.js';
+import { TokenDecorator } from '../decorators.js';
+import { MessageCard } from '../cards/MessageCard.js';
+import { PowerShellScriptCommand } from '../commands/powershell.js';
+import { resolvePath } from '../utils.js';
+
+/**
+ * PowerShell command - executes PowerShell scripts
+ *
+ * {{token}} references and --param values reach the script as PowerShell variables.
+ */
+export default class PowerShellCommand extends TaskHandler {
+  name = 'powershell';
+  description = 'Execute a PowerShell script';
+  examples = [
+    'open-tasks powershell "Get-Date"',
+    'open-tasks powershell "Get-Content {{file}}" --ref file',
+    'open-tasks powershell "Get-ChildItem $pattern" --param pattern=*.md --cwd docs',
+    'open-tasks powershell "Invoke-Build" --timeout 300000',
+  ];
+
+  protected async executeCommand(
+    config: Record<string, any>,
+    args: string[],
+    workflowContext: IFlow,
+    outputBuilder: IOutputSynk
+  ): Promise<ReferenceHandle> {
+    if (args.length === 0) {
+      throw new Error('PowerShell command requires a script argument');
+    }
+
+    const script = args[0];
+    const token = args.find((arg, i) => args[i - 1] === '--token');
+    const timeoutArg = args.find((arg, i) => args[i - 1] === '--timeout');
+    const cwdArg = args.find((arg, i) => args[i - 1] === '--cwd');
+
+    let timeout: number | undefined;
+    if (timeoutArg !== undefined) {
+      timeout = parseInt(timeoutArg, 10);
+      if (isNaN(timeout) || timeout <= 0) {
+        throw new Error(`Invalid --timeout value: ${timeoutArg} (expected milliseconds)`);
+      }
+    }
+
+    // Parse --param name=value pairs
+    const params: Record<string, string> = {};
+    args.forEach((arg, i) => {
+      if (args[i - 1] !== '--param') {
+        return;
+      }
+      const [name, ...rest] = arg.split('=');
+      if (!name || rest.length === 0) {
+        throw new Error(`Invalid --param value: ${arg} (expected name=value)`);
+      }
+      params[name] = rest.join('=');
+    });
+
+    // Execute PowerShell script
+    outputBuilder.write('Executing PowerShell script...');
+    let exitCode = 0;
+    let result: string;
+    let executionError: string | undefined;
+    let outputRef: StringRef;
+
+    try {
+      [outputRef] = await workflowContext.run(new PowerShellScriptCommand(script, {
+        params,
+        timeout,
+        cwd: cwdArg ? resolvePath(cwdArg, workflowContext.cwd) : undefined,
+        token,
+      }));
+      result = (await workflowContext.get(outputRef)) ?? '';
+    } catch (error) {
+      exitCode = 1;
+      executionError = error instanceof Error ? error.message : String(error);
+      result = executionError;
+
+      // Store the error so the failure is recorded like any other output
+      const decorators = token ? [new TokenDecorator(token)] : [];
+      outputRef = await workflowContext.set(result, decorators);
+    }
+
+    const outputFile = outputRef.fileName
+      ? `${workflowContext.cwd}/${config.outputDir}/${outputRef.fileName}`
+      : undefined;
+
+    const ref: ReferenceHandle = {
+      id: outputRef.id,
+      content: result,
+      token: token,
+      timestamp: new Date(),
+      outputFile: outputFile
+    };
+
+    // Add visual card
+    const cardStyle = exitCode === 0 ? 'success' : 'error';
+    const cardTitle = exitCode === 0 ? '⚡ PowerShell Executed' : '❌ PowerShell Failed';
+    
+    const details = [
+      `Script: ${script.length > 100 ? script.substring(0, 100) + '...' : script}`,
+      `Exit Code: ${exitCode}`,
+      `Output Length: ${result.length} characters`,
+    ];
+
+    if (token) {
+      details.push(`Token: ${token}`);
+    }
+
+    if (outputFile) {
+      details.push(`Output File: ${outputFile}`);
+    }
+
+    if (executionError) {
+      details.push(`Error: ${executionError}`);
+    } else {
+      const preview = result.length > 200 ? result.substring(0, 200) + '...' : result;
+      details.push(`Output Preview: ${preview}`);
+    }
+
+    outputBuilder.write(new MessageCard(cardTitle, details.join('\n'), cardStyle));
+
+    return ref;
+  }
+}
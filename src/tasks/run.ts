@@ -0,0 +1,88 @@
+import { IFlow, IOutputSynk, ReferenceHandle } from '../types.js';
+import { TaskHandler } from '../task-handler.js';
+import { TaskLogger } from '../logging/index.js';
+import { TableCard } from '../cards/index.js';
+import { loadPipeline, PipelineRunner } from '../pipeline.js';
+import { resolvePath, formatExecutionTime } from '../utils.js';
+
+/**
+ * Run task - executes a declarative YAML/JSON pipeline file
+ *
+ * Pipeline files list steps (set, read, write, glob, write-many, diff, apply-patch, template, match, replace, join, query, extract-code, parse-json, agent, exec, http, if, foreach, while, parallel)
+ * whose outputs can be named with `as` and referenced by later steps with {{token}}.
+ */
+export default class RunCommand extends TaskHandler {
+  name = 'run';
+  description = 'Execute a declarative YAML or JSON pipeline file';
+  examples = [
+    'ot run pipeline.yaml',
+    'ot run review.yml --var file=src/index.ts',
+    'ot run pipeline.json --verbose',
+  ];
+
+  protected async executeCommand(
+    config: Record<string, any>,
+    args: string[],
+    flow: IFlow,
+    synk: IOutputSynk
+  ): Promise<ReferenceHandle> {
+    const logger = new TaskLogger(synk, this.name);
+
+    if (args.length === 0 || args[0].startsWith('--')) {
+      logger.error('Pipeline file is required');
+      throw new Error('Usage: ot run <pipeline.yaml|pipeline.json> [--var name=value]');
+    }
+
+    const pipelinePath = resolvePath(args[0], flow.cwd);
+
+    // Parse --var name=value overrides
+    const vars: Record<string, string> = {};
+    for (let i = 1; i < args.length; i++) {
+      if (args[i] === '--var' && args[i + 1]) {
+        const [name, ...rest] = args[i + 1].split('=');
+        if (!name || rest.length === 0) {
+          throw new Error(`Invalid --var value: ${args[i + 1]} (expected name=value)`);
+        }
+        vars[name] = rest.join('=');
+        i++;
+      }
+    }
+
+    logger.progress(`Loading pipeline: ${args[0]}`);
+    const pipeline = await loadPipeline(pipelinePath);
+
+    const runner = new PipelineRunner(flow, config, (step, index) => {
+      logger.progress(`Step ${index + 1}/${pipeline.steps.length}: ${step.name || step.type}`);
+    });
+
+    const results = await runner.run(pipeline, vars);
+
+    const rows = results.map((result, i) => [
+      String(i + 1),
+      result.step.name || result.step.type,
+      result.refs.map(ref => ref.token).filter(Boolean).join(', ') || '-',
+      formatExecutionTime(result.duration),
+    ]);
+
+    logger.card(new TableCard(
+      `🔗 ${pipeline.name || 'Pipeline'} Complete`,
+      ['#', 'Step', 'Outputs', 'Time'],
+      rows,
+      `${results.length} step(s) executed`,
+      'success'
+    ));
+    logger.complete();
+
+    // Return the last output so the pipeline result is visible in quiet mode
+    const lastRefs = results.length > 0 ? results[results.length - 1].refs : [];
+    const lastRef = lastRefs[lastRefs.length - 1];
+    const content = lastRef ? await flow.get(lastRef) : undefined;
+
+    return {
+      id: lastRef?.id || 'run-result',
+      token: lastRef?.token || 'run',
+      content: content ?? `Executed ${results.length} step(s)`,
+      timestamp: new Date(),
+    };
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * Template engine used by TemplateCommand
+ *
+ * Supported syntax:
+ *   {{name}}                     value of a token (or loop variable)
+ *   {{user.name}} {{items[0]}}   dotted / indexed access into JSON values
+ *   {{name | upper | default "x"}}  filters, applied left to right
+ *   {{#if expr}}...{{else}}...{{/if}}
+ *   {{#each expr}}...{{else}}...{{/each}}  ({{this}}, {{@index}}, {{@first}}, {{@last}})
+ *   {{#each expr as item}}...{{/each}}
+ *   {{> path/to/partial.md}}     partial rendered with the current scope
+ *
+ * Expressions that resolve to undefined are left in the output unchanged, or reported
+ * with their line and column when `strict` is set.
+ */
+
+/** Matches every plain {{token}} reference in a string */
+export const TOKEN_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+/** Matches a value that is exactly one plain {{token}} reference */
+export const SINGLE_TOKEN_PATTERN = /^\{\{\s*([^{}\s]+)\s*\}\}$/;
+
+/**
+ * A filter transforms a value; extra arguments come from the template (`| indent 2`)
+ */
+export type TemplateFilter = (value: any, ...args: any[]) => any;
+
+/**
+ * Callbacks the engine uses to reach values and partials
+ */
+export interface TemplateRenderOptions {
+  /** Resolve a top-level name (usually a token); return undefined when unknown */
+  resolve(name: string): Promise<any>;
+  /** Load a partial's template text by name */
+  loadPartial?(name: string): Promise<string>;
+  /** Additional filters, merged over the built-in ones */
+  filters?: Record<string, TemplateFilter>;
+  /** Fail with every unresolved placeholder instead of leaving them in the output */
+  strict?: boolean;
+}
+
+/**
+ * Location of a placeholder in a template
+ */
+export interface PlaceholderLocation {
+  /** Placeholder as written, e.g. `{{ code }}` */
+  placeholder: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** Partial the placeholder appears in (omitted for the main template) */
+  source?: string;
+}
+
+/**
+ * Get the 1-based line and column of an offset in a text
+ */
+export function getLineColumn(text: string, index: number): { line: number; column: number } {
+  const before = text.slice(0, index);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Format an offset as `line L, column C`
+ */
+function formatPosition(text: string, index: number): string {
+  const { line, column } = getLineColumn(text, index);
+  return `line ${line}, column ${column}`;
+}
+
+/**
+ * Build the error message listing unresolved placeholders
+ */
+export function formatUnresolvedPlaceholders(locations: PlaceholderLocation[]): string {
+  const details = locations.map(location =>
+    `  ${location.placeholder} at line ${location.line}, column ${location.column}` +
+    (location.source ? ` (in ${location.source})` : '')
+  );
+  return `Unresolved template placeholder(s):\n${details.join('\n')}`;
+}
+
+/**
+ * Find every simple `{{name}}` placeholder in a text
+ * Block tags, partials and comments are skipped.
+ */
+export function findPlaceholders(text: string): (PlaceholderLocation & { name: string })[] {
+  const placeholders: (PlaceholderLocation & { name: string })[] = [];
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const name = match[1].trim();
+    if (name === '' || /^[#/>!]/.test(name) || name === 'else') {
+      continue;
+    }
+    placeholders.push({ placeholder: match[0], name, ...getLineColumn(text, match.index!) });
+  }
+  return placeholders;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expr'; expr: string; raw: string; index: number }
+  | { type: 'if'; expr: string; then: TemplateNode[]; else: TemplateNode[]; index: number }
+  | { type: 'each'; expr: string; alias?: string; body: TemplateNode[]; else: TemplateNode[]; index: number }
+  | { type: 'partial'; name: string; index: number };
+
+interface TemplateScope {
+  vars: Record<string, any>;
+  parent?: TemplateScope;
+}
+
+/** Matches every {{ ... }} tag */
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+/** Maximum nesting depth for partials (guards against partials including themselves) */
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Built-in filters
+ */
+export const BUILTIN_FILTERS: Record<string, TemplateFilter> = {
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  trim: (value) => stringify(value).trim(),
+  json: (value) => JSON.stringify(value, null, 2),
+  indent: (value, spaces = 2) => {
+    const padding = ' '.repeat(Number(spaces));
+    return stringify(value).split('\n').map(line => line.length > 0 ? padding + line : line).join('\n');
+  },
+  default: (value, fallback = '') =>
+    value === undefined || value === null || value === '' ? fallback : value,
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(stringify).join(separator) : stringify(value),
+};
+
+/**
+ * Render a template
+ * @throws Error for malformed templates, unknown filters or missing partials
+ */
+export async function renderTemplate(template: string, options: TemplateRenderOptions): Promise<string> {
+  const nodes = parseTemplate(template);
+  const filters = { ...BUILTIN_FILTERS, ...options.filters };
+  const cache = new Map<string, any>();
+
+  const resolveRoot = async (name: string): Promise<any> => {
+    if (!cache.has(name)) {
+      cache.set(name, await options.resolve(name));
+    }
+    return cache.get(name);
+  };
+
+  const unresolved: PlaceholderLocation[] = [];
+  const output = await renderNodes(nodes, { vars: {} }, {
+    options, filters, resolveRoot, depth: 0, text: template, unresolved,
+  });
+
+  if (options.strict && unresolved.length > 0) {
+    throw new Error(formatUnresolvedPlaceholders(unresolved));
+  }
+  return output;
+}
+
+/**
+ * Convert a value to template output text
+ */
+function stringify(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+/**
+ * Parse a template into a node tree
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks; `target` is the list new nodes are appended to
+  const stack: { node: TemplateNode & { type: 'if' | 'each' }; target: TemplateNode[] }[] = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index!;
+    if (index > lastIndex) {
+      target.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const content = match[1].trim();
+
+    if (content.startsWith('#if ') || content.startsWith('#each ')) {
+      const isIf = content.startsWith('#if ');
+      const expr = content.slice(isIf ? 4 : 6).trim();
+      let node: TemplateNode & { type: 'if' | 'each' };
+      if (isIf) {
+        node = { type: 'if', expr, then: [], else: [], index };
+      } else {
+        const alias = expr.match(/^(.+?)\s+as\s+([A-Za-z_$][\w$-]*)$/);
+        node = alias
+          ? { type: 'each', expr: alias[1].trim(), alias: alias[2], body: [], else: [], index }
+          : { type: 'each', expr, body: [], else: [], index };
+      }
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === 'if' ? node.then : node.body;
+    } else if (content === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new Error(`Unexpected {{else}} outside of a block at ${formatPosition(template, index)}`);
+      }
+      target = open.node.else;
+    } else if (content === '/if' || content === '/each') {
+      const open = stack.pop();
+      const type = content.slice(1);
+      if (!open || open.node.type !== type) {
+        throw new Error(`Unexpected {{${content}}} at ${formatPosition(template, index)}`);
+      }
+      target = open.target;
+    } else if (content.startsWith('>')) {
+      const name = content.slice(1).trim().replace(/^(['"])(.*)\1$/, '$2');
+      target.push({ type: 'partial', name, index });
+    } else {
+      target.push({ type: 'expr', expr: content, raw: match[0], index });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    target.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new Error(`Unclosed {{#${unclosed.node.type}}} block at ${formatPosition(template, unclosed.node.index)}`);
+  }
+
+  return root;
+}
+
+interface RenderState {
+  options: TemplateRenderOptions;
+  filters: Record<string, TemplateFilter>;
+  resolveRoot(name: string): Promise<any>;
+  depth: number;
+  /** Text of the template being rendered, for line/column reporting */
+  text: string;
+  /** Partial being rendered, if any */
+  source?: string;
+  /** Placeholders that resolved to undefined */
+  unresolved: PlaceholderLocation[];
+}
+
+/**
+ * Render a node list against a scope
+ */
+async function renderNodes(nodes: TemplateNode[], scope: TemplateScope, state: RenderState): Promise<string> {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'expr': {
+        const value = await evaluate(node.expr, scope, state);
+        if (value === undefined) {
+          state.unresolved.push({ placeholder: node.raw, ...getLineColumn(state.text, node.index), source: state.source });
+          output += node.raw;
+        } else {
+          output += stringify(value);
+        }
+        break;
+      }
+
+      case 'if': {
+        const value = await evaluate(node.expr, scope, state);
+        output += await renderNodes(isTruthy(value) ? node.then : node.else, scope, state);
+        break;
+      }
+
+      case 'each': {
+        const items = toItems(await evaluate(node.expr, scope, state));
+        if (items.length === 0) {
+          output += await renderNodes(node.else, scope, state);
+          break;
+        }
+        for (let i = 0; i < items.length; i++) {
+          const vars: Record<string, any> = {
+            this: items[i],
+            '@index': i,
+            '@first': i === 0,
+            '@last': i === items.length - 1,
+          };
+          if (node.alias) {
+            vars[node.alias] = items[i];
+          }
+          output += await renderNodes(node.body, { vars, parent: scope }, state);
+        }
+        break;
+      }
+
+      case 'partial': {
+        if (!state.options.loadPartial) {
+          throw new Error(`Partials are not available: {{> ${node.name}}}`);
+        }
+        if (state.depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep: {{> ${node.name}}}`);
+        }
+        const text = await state.options.loadPartial(node.name);
+        output += await renderNodes(parseTemplate(text), scope, {
+          ...state, depth: state.depth + 1, text, source: node.name,
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Evaluate `path | filter arg | filter` against a scope
+ */
+async function evaluate(expr: string, scope: TemplateScope, state: RenderState): Promise<any> {
+  const [pathExpr, ...filterExprs] = splitFilters(expr);
+  let value = await lookup(pathExpr.trim(), scope, state);
+
+  for (const filterExpr of filterExprs) {
+    const [name, ...args] = parseArguments(filterExpr.trim());
+    const filter = state.filters[name];
+    if (!filter) {
+      throw new Error(
+        `Unknown template filter: ${name}\n\n` +
+        `Available filters: ${Object.keys(state.filters).join(', ')}`
+      );
+    }
+    value = filter(value, ...args);
+  }
+
+  return value;
+}
+
+/**
+ * Split an expression on `|`, ignoring pipes inside quoted strings
+ */
+function splitFilters(expr: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of expr) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse `name "quoted arg" 2` into [name, ...args]; numeric arguments become numbers
+ */
+function parseArguments(filterExpr: string): any[] {
+  const args: any[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  for (const match of filterExpr.matchAll(pattern)) {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      args.push(match[1] ?? match[2]);
+    } else {
+      const raw = match[3];
+      args.push(args.length > 0 && /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw);
+    }
+  }
+  return args;
+}
+
+/**
+ * Split `user.name`, `items[0].path` or `map["some key"]` into segments
+ */
+function parsePath(pathExpr: string): (string | number)[] {
+  const segments: (string | number)[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|\["([^"]*)"\]|\['([^']*)'\]/g;
+  for (const match of pathExpr.matchAll(pattern)) {
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[3] ?? match[4]);
+  }
+  return segments;
+}
+
+/**
+ * Resolve a path against loop scopes, then against top-level names
+ */
+async function lookup(pathExpr: string, scope: TemplateScope, state: RenderState): Promise<any> {
+  if (pathExpr === '' || pathExpr === '.') {
+    return findInScope('this', scope);
+  }
+
+  // Names that contain dots (e.g. a token called "report.md") win over path access
+  const exact = findInScope(pathExpr, scope);
+  if (exact !== undefined) {
+    return exact;
+  }
+
+  const [head, ...rest] = parsePath(pathExpr);
+  if (head === undefined) {
+    return undefined;
+  }
+
+  let value: any;
+  if (head === 'this') {
+    value = findInScope('this', scope);
+  } else {
+    value = findInScope(String(head), scope);
+    if (value === undefined) {
+      // Properties of the current loop item are reachable without `this.`
+      const item = findInScope('this', scope);
+      if (item !== null && typeof item === 'object' && String(head) in item) {
+        value = item[head];
+      } else {
+        value = await state.resolveRoot(pathExpr);
+        if (value !== undefined) {
+          return value;
+        }
+        if (rest.length === 0) {
+          return undefined;
+        }
+        value = await state.resolveRoot(String(head));
+      }
+    }
+  }
+
+  for (const segment of rest) {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Find a variable in the scope chain
+ */
+function findInScope(name: string, scope: TemplateScope | undefined): any {
+  for (let current = scope; current; current = current.parent) {
+    if (name in current.vars) {
+      return current.vars[name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Truthiness for {{#if}}: empty strings, empty arrays, 0, false, null and undefined are false
+ */
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Items for {{#each}}: arrays as-is, text split into non-blank lines, objects as {key, value}
+ */
+function toItems(value: any): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.split(/\r?\n/).filter(line => line.trim().length > 0);
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => ({ key, value: item }));
+  }
+  return [value];
+}
@@ -219,6 +219,25 @@ export interface IOutputSynk {
    * Shown only in verbose mode
    */
   writeError(message: string): void;
+
+  // === Live progress ===
+
+  /**
+   * Start a live progress area for a long-running step (SUMMARY level)
+   * Shows a spinner, the elapsed time and the latest output lines until stopped.
+   * Optional so existing output handlers keep compiling; without it no progress is shown.
+   */
+  startProgress?(title: string): IProgressArea;
+}
+
+/**
+ * Handle to a live progress area started with IOutputSynk.startProgress
+ */
+export interface IProgressArea {
+  /** Replace the output lines shown under the title */
+  update(lines: string[]): void;
+  /** Stop the progress area, leaving a success or failure line */
+  stop(success: boolean, message?: string): void;
 }
 
 
@@ -236,6 +255,14 @@ export interface TransformMetadata {
   timestamp: Date;
 }
 
+/**
+ * Kind of content held by a StringRef
+ * - text: UTF-8 string
+ * - json: JSON-serialized value (objects, arrays, numbers, booleans)
+ * - binary: raw bytes (Buffer / Uint8Array)
+ */
+export type RefContentType = 'text' | 'json' | 'binary';
+
 /**
  * Reference to a stored memory value with metadata
  */
@@ -248,6 +275,50 @@ export interface StringRef {
   timestamp: Date;
   /** Path to persisted file (if applicable) */
   fileName: string;  
+  /** Kind of content recorded at set time (defaults to 'text' when absent) */
+  contentType?: RefContentType;
+  /** MIME type of the content (e.g. 'application/json', 'image/png') */
+  mimeType?: string;
+}
+
+/**
+ * Entry recorded in a run manifest for every stored reference
+ */
+export interface ManifestEntry {
+  /** Reference identifier */
+  id: string;
+  /** Optional user-friendly token */
+  token?: string;
+  /** Path of the persisted file, relative to the output directory */
+  fileName: string;
+  /** Creation timestamp (ISO 8601) */
+  timestamp: string;
+  /** Names of the decorators applied to the reference */
+  decorators: string[];
+  /** Name of the command that produced the value (if produced through run) */
+  command?: string;
+  /** Kind of content stored */
+  contentType: RefContentType;
+  /** MIME type of the content */
+  mimeType?: string;
+  /** Size of the persisted content in bytes */
+  size: number;
+}
+
+/**
+ * Manifest written to each run directory describing what the run produced
+ */
+export interface RunManifest {
+  /** Run directory name */
+  runId: string;
+  /** Task that was executed */
+  task?: string;
+  /** Working directory of the run */
+  cwd: string;
+  /** Start timestamp (ISO 8601) */
+  startedAt: string;
+  /** References stored during the run, in order */
+  refs: ManifestEntry[];
 }
 
 /**
@@ -290,6 +361,20 @@ export interface IFlow {
    * Configuration object with runtime options (verbosity, dryRun, etc.)
    */
   config?: Record<string, any>;
+
+  /**
+   * Output handler for live progress of long-running commands (absent outside the CLI)
+   */
+  outputSynk?: IOutputSynk;
+
+  /**
+   * Write partial content to the file a result will later be stored under
+   * (via FileNameDecorator), so an interrupted command still leaves its output.
+   * Flows that do not persist to files omit this.
+   * @param fileName - File name as passed to FileNameDecorator
+   * @param value - The content so far
+   */
+  writePartial?(fileName: string, value: any): Promise<void>;
   
   /**
    * Stores a value with optional decorators
@@ -306,6 +391,23 @@ export interface IFlow {
    */
   get(ref: StringRef): Promise<string | undefined>;
 
+  /**
+   * Retrieves a stored value parsed as JSON
+   * @param ref - The memory reference to retrieve
+   * @returns The parsed value or undefined if not found
+   * @throws Error if the stored content is not valid JSON
+   * Optional so existing flows keep compiling; readJson() falls back to get() and JSON.parse
+   */
+  getJson?<T = any>(ref: StringRef): Promise<T | undefined>;
+
+  /**
+   * Retrieves a stored value as raw bytes
+   * @param ref - The memory reference to retrieve
+   * @returns The stored bytes or undefined if not found
+   * Optional so existing flows keep compiling; readBuffer() falls back to get() as UTF-8
+   */
+  getBuffer?(ref: StringRef): Promise<Buffer | undefined>;
+
 
   /**
    * Execute a command with this context
@@ -313,6 +415,24 @@ export interface IFlow {
    * @returns Array of memory references produced by the command
    */
   run(command: ICommand): Promise<StringRef[]>;
+
+  /**
+   * Execute independent commands concurrently
+   * @param commands - The commands to execute
+   * @param options - concurrency: maximum commands in flight (default: config.concurrency or 4)
+   * @returns Memory references per command, in the same order as `commands`
+   * @throws AggregateError listing every failed command once all commands have settled
+   * Optional so existing flows keep compiling; runAll() in run-all.ts falls back to run()
+   */
+  runAll?(commands: ICommand[], options?: RunAllOptions): Promise<StringRef[][]>;
+}
+
+/**
+ * Options for IFlow.runAll
+ */
+export interface RunAllOptions {
+  /** Maximum number of commands executing at once */
+  concurrency?: number;
 }
 
 /**
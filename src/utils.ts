@@ -38,6 +38,37 @@ export function resolvePath(filePath: string, cwd: string): string {
   return path.isAbsolute(filePath) ? filePath : path.join(cwd, filePath);
 }
 
+/**
+ * Common MIME types by file extension
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.csv': 'text/csv',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+};
+
+/**
+ * Get the MIME type for a file based on its extension
+ * Falls back to application/octet-stream for unknown extensions
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
 /**
  * Validate and sanitize output file path
  * Prevents directory traversal attacks
@@ -129,3 +160,10 @@ export async function getAvailableWikiFiles(): Promise<string[]> {
     return [];
   }
 }
+
+/**
+ * Escape a string so it matches literally inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
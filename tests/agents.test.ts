@@ -1,11 +1,20 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
 import { DirectoryOutputContext } from '../src/directory-output-context.js';
 import { SetCommand } from '../src/commands/set.js';
 import { AgentCommand } from '../src/commands/agents/agent.js';
-import { ClaudeConfigBuilder } from '../src/commands/agents/claude.js';
+import { ClaudeConfigBuilder, ClaudeConfig } from '../src/commands/agents/claude.js';
 import { GeminiConfigBuilder } from '../src/commands/agents/gemini.js';
+import { IAgentConfig } from '../src/commands/agents/base.js';
+import { registerAgentProvider, listAgentProviders, createAgentConfig } from '../src/commands/agents/registry.js';
+import { loadAgentConfigByName } from '../src/commands/agents/config-loader.js';
+import { getAgentConfig } from '../src/config-loader.js';
+import { mockPromptHash } from '../src/commands/agents/mock.js';
+import { ChatCompletionsConfigBuilder } from '../src/commands/agents/chat-completions.js';
+import { IOutputSynk } from '../src/types.js';
 
 describe('Agent Commands', () => {
   let context: DirectoryOutputContext;
@@ -48,7 +57,7 @@ describe('Agent Commands', () => {
       expect(result).toContain('[DRY-RUN]');
       expect(result).toContain('claude');
       expect(result).toContain('Review this code for bugs');
-      expect(result).toContain('--allow-all-tools');
+      expect(result).toContain('--dangerously-skip-permissions');
       expect(result).toContain('--model');
       expect(result).toContain('claude-3.5-sonnet');
     });
@@ -108,6 +117,406 @@ describe('Agent Commands', () => {
     });
   });
 
+  describe('Prompt strategies', () => {
+    it('should pipe the prompt to Claude on stdin when a prompt file is given', async () => {
+      const promptRefs = await context.run(new SetCommand('A very long prompt'));
+      const config = new ClaudeConfigBuilder().withDryRun().build();
+
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]], 'prompt.txt'));
+      const result = await context.get(refs[0]);
+
+      expect(result).toContain('claude -p\n[stdin]\nA very long prompt');
+    });
+
+    it('should pass a prompt file to Gemini as @file', async () => {
+      const promptRefs = await context.run(new SetCommand('A very long prompt'));
+      const config = new GeminiConfigBuilder().withDryRun().build();
+
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]], 'prompt.txt'));
+      const result = await context.get(refs[0]);
+
+      expect(result).toContain('gemini -p @prompt.txt');
+      expect(result).not.toContain('A very long prompt');
+    });
+  });
+
+  describe('Agent provider registry', () => {
+    it('should register a provider for every supported tool', () => {
+      expect(listAgentProviders()).toEqual(expect.arrayContaining([
+        'gemini', 'claude', 'copilot', 'aider', 'qwen', 'llm', 'codebuff', 'crush', 'openai', 'custom', 'mock', 'openai-compatible',
+      ]));
+    });
+
+    it('should create configs from definitions and apply shared options', () => {
+      const config = createAgentConfig({
+        name: 'crush-local',
+        type: 'crush',
+        workingDirectory: 'src',
+        timeout: 5000,
+        config: { model: 'llama3', provider: 'ollama', showShell: true },
+      });
+
+      expect(config.buildCommand('Hi')).toEqual({ command: 'crush', args: ['-p', 'Hi', '--model', 'llama3', '--provider', 'ollama'] });
+      expect(config.workingDirectory).toBe('src');
+      expect(config.timeout).toBe(5000);
+      expect(config.showShell).toBe(true);
+      expect(() => createAgentConfig({ name: 'x', type: 'unknown' })).toThrow('Unknown agent type: unknown');
+    });
+
+    it('should resolve agents of a registered custom type and parse their output', async () => {
+      registerAgentProvider({
+        type: 'echo-test',
+        description: 'Echoes the prompt',
+        create(options): IAgentConfig {
+          return {
+            buildCommand: (prompt) => ({ command: 'node', args: ['-e', 'process.stdin.pipe(process.stdout)'], stdin: prompt }),
+            getEnvironment: () => ({}),
+            parseOutput: (stdout) => `${options.prefix}${stdout.trim()}`,
+          };
+        },
+      });
+      const appConfig = { agents: [{ name: 'echo', type: 'echo-test', config: { prefix: '> ' } }] };
+
+      const promptRefs = await context.run(new SetCommand('hello from stdin'));
+      const refs = await context.run(new AgentCommand(loadAgentConfigByName(appConfig, 'echo'), [promptRefs[0]]));
+
+      expect(await context.get(refs[0])).toBe('> hello from stdin');
+    });
+
+    it('should pass a prompt with shell syntax to a built-in agent as one argument', async () => {
+      // A stand-in `gemini` on PATH that prints the arguments it received
+      const binDir = path.join(testDir, 'bin');
+      await fs.mkdir(binDir, { recursive: true });
+      await fs.writeFile(
+        path.join(binDir, 'gemini'),
+        '#!/usr/bin/env node\nprocess.stdout.write(JSON.stringify(process.argv.slice(2)));\n',
+        { mode: 0o755 }
+      );
+      const originalPath = process.env.PATH;
+      process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+
+      try {
+        const prompt = 'fix the $(echo INJECTED) bug; echo `id` "quoted" \'single\' | cat';
+        const promptRefs = await context.run(new SetCommand(prompt));
+        const refs = await context.run(new AgentCommand(createAgentConfig({ name: 'gemini', type: 'gemini' }), [promptRefs[0]]));
+
+        expect(JSON.parse((await context.get(refs[0]))!)).toEqual(['-p', prompt]);
+      } finally {
+        process.env.PATH = originalPath;
+      }
+    });
+
+    it('should give task agents a default timeout and allow all tools', () => {
+      const appConfig = { agents: [{ name: 'claude-default', type: 'claude', config: { model: 'sonnet' } }] };
+
+      const config = getAgentConfig(appConfig, 'claude-default')!;
+
+      expect(config.timeout).toBe(300000);
+      expect(config.buildCommand('Hi').args).toEqual(['-p', 'Hi', '--dangerously-skip-permissions', '--model', 'sonnet']);
+      expect(getAgentConfig(appConfig, 'missing')).toBeNull();
+    });
+  });
+
+  describe('Custom agents', () => {
+    it('should render the argument template and environment', () => {
+      const config = createAgentConfig({
+        name: 'opencode',
+        type: 'custom',
+        config: {
+          command: 'opencode',
+          args: ['run', '--model={{model}}', '{{prompt}}'],
+          model: 'anthropic/sonnet',
+          env: { OPENCODE_LOG: 'error' },
+        },
+      });
+
+      expect(config.buildCommand('Fix the bug')).toEqual({ command: 'opencode', args: ['run', '--model=anthropic/sonnet', 'Fix the bug'] });
+      expect(config.getEnvironment()).toEqual({ OPENCODE_LOG: 'error' });
+      expect(config.requiresPromptFile).toBe(false);
+    });
+
+    it('should pipe the prompt to stdin when the template has no prompt placeholder', async () => {
+      const config = createAgentConfig({
+        name: 'cat',
+        type: 'custom',
+        config: { command: 'node', args: ['-e', 'process.stdin.pipe(process.stdout)'] },
+      });
+
+      const promptRefs = await context.run(new SetCommand('piped prompt'));
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+
+      expect(await context.get(refs[0])).toBe('piped prompt');
+    });
+
+    it('should write a temporary prompt file for file delivery and remove it afterwards', async () => {
+      const config = createAgentConfig({
+        name: 'file-reader',
+        type: 'custom',
+        config: {
+          command: 'node',
+          args: ['-e', "const f = process.argv[1]; process.stdout.write(f + '|' + require('fs').readFileSync(f, 'utf8'))"],
+          promptDelivery: 'file',
+        },
+      });
+
+      const promptRefs = await context.run(new SetCommand('prompt on disk'));
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+      const [file, content] = (await context.get(refs[0]))!.split('|');
+
+      expect(content).toBe('prompt on disk');
+      await expect(fs.access(file)).rejects.toThrow();
+    });
+
+    it('should pass an argv prompt to the program as one unchanged argument', async () => {
+      const config = createAgentConfig({
+        name: 'argv-echo',
+        type: 'custom',
+        config: { command: 'node', args: ['-e', 'process.stdout.write(JSON.stringify(process.argv.slice(1)))', '{{prompt}}'] },
+      });
+      const prompt = `hello world; echo INJECTED $HOME "double" 'single' | cat`;
+
+      const promptRefs = await context.run(new SetCommand(prompt));
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+
+      expect(JSON.parse((await context.get(refs[0]))!)).toEqual([prompt]);
+    });
+
+    it('should treat the configured exit codes as success', async () => {
+      const definition = { name: 'exit-3', type: 'custom', config: { command: 'node', args: ['-e', 'process.exit(3)'] } };
+      const promptRefs = await context.run(new SetCommand('Hi'));
+
+      await expect(context.run(new AgentCommand(createAgentConfig(definition), [promptRefs[0]])))
+        .rejects.toThrow('Agent failed with code 3');
+
+      const tolerant = createAgentConfig({ ...definition, config: { ...definition.config, successExitCodes: [0, 3] } });
+      await expect(context.run(new AgentCommand(tolerant, [promptRefs[0]]))).resolves.toHaveLength(1);
+    });
+
+    it('should reject invalid definitions naming the agent', () => {
+      expect(() => createAgentConfig({ name: 'no-cmd', type: 'custom', config: {} }))
+        .toThrow("Custom agent 'no-cmd' requires config.command");
+      expect(() => createAgentConfig({ name: 'typo', type: 'custom', config: { command: 'x', args: ['{{promt}}'] } }))
+        .toThrow("Custom agent 'typo': unknown placeholder {{promt}}");
+      expect(() => createAgentConfig({ name: 'no-model', type: 'custom', config: { command: 'x', args: ['{{model}}'] } }))
+        .toThrow("Custom agent 'no-model' uses {{model}} but config.model is not set");
+      expect(() => createAgentConfig({ name: 'bad', type: 'custom', config: { command: 'x', promptDelivery: 'pipe' } }))
+        .toThrow('invalid promptDelivery "pipe"');
+    });
+  });
+
+  describe('Mock agent', () => {
+    const ask = async (config: IAgentConfig, prompt: string) => {
+      const promptRefs = await context.run(new SetCommand(prompt));
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+      return context.get(refs[0]);
+    };
+
+    it('should answer from rules, then hashed fixtures, then the default response', async () => {
+      const fixturesDir = path.join(testDir, 'fixtures');
+      await fs.mkdir(fixturesDir, { recursive: true });
+      await fs.writeFile(path.join(fixturesDir, `${mockPromptHash('Plan the task')}.json`), JSON.stringify({ response: 'the plan', latencyMs: 20 }));
+      await fs.writeFile(path.join(fixturesDir, 'review.md'), 'looks good');
+
+      const config = createAgentConfig({
+        name: 'ci',
+        type: 'mock',
+        config: {
+          fixturesDir,
+          defaultResponse: 'default',
+          rules: [
+            { match: '^Review', responseFile: 'review.md' },
+            { match: 'summari[sz]e', flags: 'i', response: 'summary' },
+          ],
+        },
+      });
+
+      expect(await ask(config, 'Review this diff')).toBe('looks good');
+      expect(await ask(config, 'Please SUMMARISE')).toBe('summary');
+      const started = Date.now();
+      expect(await ask(config, 'Plan the task')).toBe('the plan');
+      expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+      expect(await ask(config, 'anything else')).toBe('default');
+    });
+
+    it('should script failures and report unanswered prompts', async () => {
+      const config = createAgentConfig({
+        name: 'flaky',
+        type: 'mock',
+        config: {
+          fixturesDir: testDir,
+          rules: [
+            { match: 'deploy', error: 'rate limited', exitCode: 2, times: 1 },
+            { match: 'deploy', response: 'deployed' },
+          ],
+        },
+      });
+
+      await expect(ask(config, 'deploy now')).rejects.toThrow('Agent failed with code 2:\nrate limited');
+      expect(await ask(config, 'deploy now')).toBe('deployed');
+      await expect(ask(config, 'unknown')).rejects.toThrow(`Mock agent 'flaky' has no response for prompt ${mockPromptHash('unknown')}`);
+    });
+
+    it('should record a real agent into fixtures and replay them', async () => {
+      const recorder = createAgentConfig({
+        name: 'rec',
+        type: 'mock',
+        config: {
+          fixturesDir: testDir,
+          mode: 'record',
+          record: { type: 'custom', config: { command: 'node', args: ['-e', 'process.stdin.pipe(process.stdout)'] } },
+        },
+      });
+
+      expect(await ask(recorder, 'echo me')).toBe('echo me');
+      const fixture = JSON.parse(await fs.readFile(path.join(testDir, `${mockPromptHash('echo me')}.json`), 'utf-8'));
+      expect(fixture).toMatchObject({ prompt: 'echo me', response: 'echo me' });
+      expect(fixture.latencyMs).toBeGreaterThanOrEqual(0);
+
+      const replay = createAgentConfig({ name: 'replay', type: 'mock', config: { fixturesDir: testDir, latencyMs: 0 } });
+      expect(await ask(replay, 'echo me')).toBe('echo me');
+    });
+
+    it('should reject invalid definitions', () => {
+      expect(() => createAgentConfig({ name: 'm', type: 'mock', config: { rules: [{ match: '(', response: 'x' }] } }))
+        .toThrow("Mock agent 'm': rule 1 has an invalid regular expression");
+      expect(() => createAgentConfig({ name: 'm', type: 'mock', config: { rules: [{ match: 'x' }] } }))
+        .toThrow('rule 1 needs "response", "responseFile" or "error"');
+      expect(() => createAgentConfig({ name: 'm', type: 'mock', config: { mode: 'record' } }))
+        .toThrow('record mode needs "record"');
+    });
+  });
+
+  describe('OpenAI-compatible agent', () => {
+    it('should send a chat completions request and return the message content', async () => {
+      const requests: { url?: string; auth?: string; body: any }[] = [];
+      const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk).on('end', () => {
+          requests.push({ url: req.url, auth: req.headers.authorization, body: JSON.parse(body) });
+          res.writeHead(200, { 'content-type': 'application/json' });
+          res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'LGTM' } }] }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const config = createAgentConfig({
+          name: 'local',
+          type: 'openai-compatible',
+          config: {
+            baseUrl: `http://127.0.0.1:${port}/v1/`,
+            model: 'qwen2.5-coder',
+            apiKey: 'secret',
+            systemPrompt: 'Be brief.',
+            temperature: 0.2,
+            maxTokens: 64,
+            jsonMode: true,
+          },
+        });
+
+        const promptRefs = await context.run(new SetCommand('Review this'));
+        const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+
+        expect(await context.get(refs[0])).toBe('LGTM');
+        expect(requests).toEqual([{
+          url: '/v1/chat/completions',
+          auth: 'Bearer secret',
+          body: {
+            model: 'qwen2.5-coder',
+            messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Review this' }],
+            temperature: 0.2,
+            max_tokens: 64,
+            response_format: { type: 'json_object' },
+          },
+        }]);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    it('should fail with the server response on error statuses', async () => {
+      const config = new ChatCompletionsConfigBuilder('http://models.test/v1', 'm')
+        .withFetch(async () => ({ status: 503, headers: { forEach: () => {} }, text: async () => 'model loading' }))
+        .build();
+
+      const promptRefs = await context.run(new SetCommand('Hi'));
+      await expect(context.run(new AgentCommand(config, [promptRefs[0]])))
+        .rejects.toThrow('Agent request failed with status 503:\nmodel loading');
+    });
+
+    it('should echo the request in dry-run mode and validate definitions', async () => {
+      const config = new ChatCompletionsConfigBuilder('http://models.test/v1', 'm')
+        .withFetch(async () => { throw new Error('should not be called'); })
+        .withDryRun()
+        .build();
+
+      const promptRefs = await context.run(new SetCommand('Hi'));
+      const refs = await context.run(new AgentCommand(config, [promptRefs[0]]));
+      const output = await context.get(refs[0]);
+
+      expect(output).toContain('POST http://models.test/v1/chat/completions');
+      expect(output).toContain('"content": "Hi"');
+      expect(() => createAgentConfig({ name: 'x', type: 'openai-compatible', config: { model: 'm' } }))
+        .toThrow("Agent 'x' requires config.baseUrl");
+    });
+  });
+
+  describe('Streaming output', () => {
+    const printer = (script: string) => createAgentConfig({
+      name: 'printer',
+      type: 'custom',
+      config: { command: 'node', args: ['-e', script], promptDelivery: 'stdin' },
+    });
+
+    it('should show the latest lines in a progress area and store the result in the streamed file', async () => {
+      const progress = { update: vi.fn(), stop: vi.fn() };
+      context.outputSynk = { startProgress: vi.fn(() => progress) } as unknown as IOutputSynk;
+
+      const promptRefs = await context.run(new SetCommand('Hi'));
+      const refs = await context.run(new AgentCommand(
+        printer("for (let i = 1; i <= 7; i++) console.log('line ' + i)"),
+        [promptRefs[0]]
+      ));
+
+      expect(context.outputSynk.startProgress).toHaveBeenCalledWith('Agent running (printer)');
+      expect(progress.update).toHaveBeenLastCalledWith(['line 3', 'line 4', 'line 5', 'line 6', 'line 7']);
+      expect(progress.stop).toHaveBeenCalledWith(true, 'Agent finished (printer)');
+      expect(await fs.readFile(path.join(testDir, refs[0].fileName), 'utf-8')).toContain('line 7');
+      expect((await fs.readdir(testDir)).filter(f => f.endsWith('.txt'))).toHaveLength(2);
+    });
+
+    it('should leave partial output behind when the agent fails', async () => {
+      const progress = { update: vi.fn(), stop: vi.fn() };
+      context.outputSynk = { startProgress: () => progress } as unknown as IOutputSynk;
+      const promptRefs = await context.run(new SetCommand('Hi'));
+      const before = await fs.readdir(testDir);
+
+      await expect(context.run(new AgentCommand(
+        printer("console.log('step 1'); console.log('step 2'); process.exit(1)"),
+        [promptRefs[0]]
+      ))).rejects.toThrow('Agent failed with code 1');
+
+      const partial = (await fs.readdir(testDir)).filter(f => !before.includes(f));
+      expect(partial).toHaveLength(1);
+      expect(await fs.readFile(path.join(testDir, partial[0]), 'utf-8')).toBe('step 1\nstep 2');
+      expect(progress.stop).toHaveBeenCalledWith(false, expect.stringContaining('Agent failed (printer)'));
+    });
+
+    it('should parse Claude stream-json events', () => {
+      const config = new ClaudeConfigBuilder().withStreamJson().build() as ClaudeConfig;
+      const events = [
+        { type: 'system', subtype: 'init' },
+        { type: 'assistant', message: { content: [{ type: 'text', text: 'Reading files' }, { type: 'tool_use', name: 'Read' }] } },
+        { type: 'result', subtype: 'success', result: 'All done' },
+      ].map(event => JSON.stringify(event));
+
+      expect(config.buildCommand('Hi').args).toEqual(['-p', 'Hi', '--output-format', 'stream-json', '--verbose']);
+      expect(events.map(line => config.parseStreamLine(line))).toEqual([undefined, 'Reading files\n[tool: Read]', undefined]);
+      expect(config.parseOutput(events.join('\n') + '\n')).toBe('All done');
+    });
+  });
+
   describe('Multiple prompts', () => {
     it('should join multiple prompt refs in dry-run', async () => {
       const prompt1 = await context.run(new SetCommand('First instruction'));
@@ -0,0 +1,407 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DirectoryOutputContext,
+  TOKEN_INDEX_FILE,
+  MANIFEST_FILE,
+  createRunId,
+  pruneTokenIndex,
+} from '../src/directory-output-context.js';
+import { ContextBuilder } from '../src/context-builder.js';
+import { OptionResolver } from '../src/option-resolver.js';
+import { MemoryFlow } from '../src/memory-flow.js';
+import { TemplateCommand } from '../src/commands/template.js';
+import { SetCommand } from '../src/commands/set.js';
+import { ReadCommand } from '../src/commands/read.js';
+import { WriteCommand } from '../src/commands/write.js';
+import { ParallelCommand } from '../src/commands/parallel.js';
+import { JsonQueryCommand } from '../src/commands/json-query.js';
+import { ContentTypeDecorator, TokenDecorator } from '../src/decorators.js';
+import { ICommand, IFlow, IRefDecorator } from '../src/types.js';
+
+/**
+ * Test command that waits before producing its value and tracks how many run at once
+ */
+class DelayedCommand implements ICommand {
+  static active = 0;
+  static maxActive = 0;
+
+  constructor(private value: string, private delay: number, private token?: string, private fail = false) {}
+
+  async execute(context: IFlow): Promise<[any, IRefDecorator[]][]> {
+    DelayedCommand.active++;
+    DelayedCommand.maxActive = Math.max(DelayedCommand.maxActive, DelayedCommand.active);
+    try {
+      await new Promise(resolve => setTimeout(resolve, this.delay));
+      if (this.fail) {
+        throw new Error(`${this.value} failed`);
+      }
+      // Direct sets are attributed to the running command in the manifest
+      await context.set(`${this.value} (direct)`);
+      return [[this.value, this.token ? [new TokenDecorator(this.token)] : []]];
+    } finally {
+      DelayedCommand.active--;
+    }
+  }
+}
+
+describe('Workflow Context', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), '.test-output-context');
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    // Clean up test directory
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('Token index', () => {
+    it('should persist tokenized refs to the index file', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      await context.run(new SetCommand('first', 'one'));
+      await context.run(new SetCommand('untokenized'));
+      await context.run(new SetCommand('second', 'two'));
+
+      const index = JSON.parse(await fs.readFile(path.join(testDir, TOKEN_INDEX_FILE), 'utf-8'));
+      expect(Object.keys(index)).toEqual(['one', 'two']);
+      expect(index.one.token).toBe('one');
+    });
+
+    it('should resolve tokens set by a previous context', async () => {
+      const first = new DirectoryOutputContext(process.cwd(), testDir);
+      await first.run(new SetCommand('persisted value', 'file'));
+
+      const second = new DirectoryOutputContext(process.cwd(), testDir);
+      const refs = await second.loadTokens(['file']);
+
+      expect(refs).toHaveLength(1);
+      expect(refs[0].timestamp).toBeInstanceOf(Date);
+      expect(second.Tokens.has('file')).toBe(true);
+      expect(await second.get(refs[0])).toBe('persisted value');
+    });
+
+    it('should throw for unknown tokens', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      await expect(context.loadTokens(['missing'])).rejects.toThrow('Reference token not found: missing');
+    });
+  });
+
+  describe('Run directories', () => {
+    it('should write refs into the run directory', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-1', task: 'demo' });
+      const refs = await context.run(new SetCommand('grouped'));
+
+      expect(refs[0].fileName).toBe(path.join('run-1', `${refs[0].id}.txt`));
+      const content = await fs.readFile(path.join(testDir, 'run-1', `${refs[0].id}.txt`), 'utf-8');
+      expect(content).toBe('grouped');
+      expect(await context.get(refs[0])).toBe('grouped');
+    });
+
+    it('should record every ref in the run manifest', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-1', task: 'demo' });
+      await context.run(new SetCommand('héllo', 'greeting'));
+      await context.set('direct');
+
+      const manifest = JSON.parse(await fs.readFile(path.join(testDir, 'run-1', MANIFEST_FILE), 'utf-8'));
+      expect(manifest.runId).toBe('run-1');
+      expect(manifest.task).toBe('demo');
+      expect(manifest.refs).toHaveLength(2);
+      expect(manifest.refs[0]).toMatchObject({
+        token: 'greeting',
+        decorators: ['TokenDecorator'],
+        command: 'SetCommand',
+        size: 6,
+      });
+      expect(manifest.refs[1].command).toBeUndefined();
+    });
+
+    it('should resolve tokens from earlier runs', async () => {
+      const first = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-1' });
+      await first.run(new SetCommand('from run 1', 'file'));
+
+      const second = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-2' });
+      const refs = await second.loadTokens(['file']);
+      expect(await second.get(refs[0])).toBe('from run 1');
+    });
+
+    it('should prune tokens whose run directory was removed', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-1' });
+      await context.run(new SetCommand('old', 'stale'));
+      await fs.rm(path.join(testDir, 'run-1'), { recursive: true });
+
+      expect(await pruneTokenIndex(testDir)).toEqual(['stale']);
+      const index = JSON.parse(await fs.readFile(path.join(testDir, TOKEN_INDEX_FILE), 'utf-8'));
+      expect(index).toEqual({});
+    });
+
+    it('should create sortable run ids', () => {
+      const runId = createRunId('build', new Date('2024-01-02T03:04:05.006Z'));
+      expect(runId).toBe('20240102T030405-006-build');
+    });
+  });
+
+  describe('Typed values', () => {
+    it('should record content types at set time', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      const text = await context.set('plain');
+      const json = await context.set({ name: 'Ada' });
+      const binary = await context.set(Buffer.from([0, 1, 2]));
+
+      expect(text).toMatchObject({ contentType: 'text', mimeType: 'text/plain' });
+      expect(json).toMatchObject({ contentType: 'json', mimeType: 'application/json' });
+      expect(binary).toMatchObject({ contentType: 'binary', mimeType: 'application/octet-stream' });
+      expect(json.fileName).toBe(`${json.id}.json`);
+    });
+
+    it('should return parsed JSON from getJson', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      const ref = await context.set({ items: [1, 2, 3] });
+
+      const value = await context.getJson<{ items: number[] }>(ref);
+      expect(value).toEqual({ items: [1, 2, 3] });
+    });
+
+    it('should throw from getJson when content is not JSON', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      const ref = await context.set('not json');
+      await expect(context.getJson(ref)).rejects.toThrow('Failed to parse JSON');
+    });
+
+    it('should round-trip binary content as raw bytes', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+      const ref = await context.set(bytes, [new ContentTypeDecorator('binary', 'image/png')]);
+
+      expect(ref.mimeType).toBe('image/png');
+      expect(await context.getBuffer(ref)).toEqual(bytes);
+      expect(await fs.readFile(path.join(testDir, ref.fileName))).toEqual(bytes);
+    });
+
+    it('should read and write binary files through commands', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir);
+      const bytes = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff]);
+      const source = path.join(testDir, 'archive.zip');
+      await fs.writeFile(source, bytes);
+
+      const refs = await context.run(new ReadCommand(source, { binary: true }));
+      expect(refs[0].mimeType).toBe('application/zip');
+
+      const target = path.join(testDir, 'copy.zip');
+      await context.run(new WriteCommand(target, refs[0]));
+      expect(await fs.readFile(target)).toEqual(bytes);
+    });
+  });
+
+  describe('MemoryFlow', () => {
+    it('should store and retrieve values without writing files', async () => {
+      const flow = new MemoryFlow(process.cwd());
+      const refs = await flow.run(new SetCommand('in memory', 'note'));
+
+      expect(await flow.get(refs[0])).toBe('in memory');
+      expect(flow.Tokens.get('note')).toEqual(refs[0]);
+      expect(await fs.readdir(testDir)).toEqual([]);
+    });
+
+    it('should support typed values', async () => {
+      const flow = new MemoryFlow(process.cwd());
+      const json = await flow.set({ count: 2 });
+      const binary = await flow.set(Buffer.from([1, 2, 3]));
+
+      expect(await flow.getJson(json)).toEqual({ count: 2 });
+      expect(await flow.getBuffer(binary)).toEqual(Buffer.from([1, 2, 3]));
+    });
+
+    it('should resolve tokens for TemplateCommand', async () => {
+      const flow = new MemoryFlow(process.cwd());
+      await flow.run(new SetCommand('World', 'name'));
+
+      const refs = await flow.run(new TemplateCommand('Hello {{name}}!'));
+      expect(await flow.get(refs[0])).toBe('Hello World!');
+    });
+
+    it('should spill values above the threshold to disk', async () => {
+      const flow = new MemoryFlow(process.cwd(), 'summary', {}, { spillDir: testDir, spillThreshold: 4 });
+      const small = await flow.set('tiny');
+      const large = await flow.set('larger than four bytes');
+
+      expect(await fs.readdir(testDir)).toEqual([large.fileName]);
+      expect(await flow.get(small)).toBe('tiny');
+      expect(await flow.get(large)).toBe('larger than four bytes');
+    });
+  });
+
+  describe('Parallel execution', () => {
+    beforeEach(() => {
+      DelayedCommand.active = 0;
+      DelayedCommand.maxActive = 0;
+    });
+
+    it('should return results in command order', async () => {
+      const flow = new MemoryFlow(testDir);
+      const results = await flow.runAll([
+        new DelayedCommand('slow', 30),
+        new DelayedCommand('fast', 1),
+        new DelayedCommand('medium', 10),
+      ]);
+
+      expect(results).toHaveLength(3);
+      expect(await flow.get(results[0][0])).toBe('slow');
+      expect(await flow.get(results[1][0])).toBe('fast');
+      expect(await flow.get(results[2][0])).toBe('medium');
+    });
+
+    it('should respect the concurrency limit', async () => {
+      const flow = new MemoryFlow(testDir);
+      const commands = Array.from({ length: 6 }, (_, i) => new DelayedCommand(`item ${i}`, 5));
+
+      await flow.runAll(commands, { concurrency: 2 });
+      expect(DelayedCommand.maxActive).toBe(2);
+    });
+
+    it('should use the configured concurrency by default', async () => {
+      const flow = new MemoryFlow(testDir, 'summary', { concurrency: 3 });
+      const commands = Array.from({ length: 6 }, (_, i) => new DelayedCommand(`item ${i}`, 5));
+
+      await flow.runAll(commands);
+      expect(DelayedCommand.maxActive).toBe(3);
+    });
+
+    it('should reject invalid concurrency', async () => {
+      const flow = new MemoryFlow(testDir);
+      await expect(flow.runAll([], { concurrency: 0 })).rejects.toThrow('Invalid concurrency: 0');
+    });
+
+    it('should finish every command and aggregate failures', async () => {
+      const flow = new MemoryFlow(testDir);
+      const commands = [
+        new DelayedCommand('first', 5, undefined, true),
+        new DelayedCommand('second', 1, 'second'),
+        new DelayedCommand('third', 1, undefined, true),
+      ];
+
+      const error = await flow.runAll(commands).catch(error => error);
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.errors).toHaveLength(2);
+      expect(error.message).toContain('2 of 3 command(s) failed');
+      expect(error.message).toContain('[0] DelayedCommand: first failed');
+      expect(error.message).toContain('[2] DelayedCommand: third failed');
+      expect(flow.Tokens.has('second')).toBe(true);
+    });
+
+    it('should keep the token index and manifest consistent under concurrency', async () => {
+      const context = new DirectoryOutputContext(process.cwd(), testDir, 'summary', {}, { id: 'run-1' });
+      await context.runAll(
+        Array.from({ length: 5 }, (_, i) => new DelayedCommand(`value ${i}`, 5 - i, `token${i}`)),
+        { concurrency: 5 }
+      );
+
+      const index = JSON.parse(await fs.readFile(path.join(testDir, TOKEN_INDEX_FILE), 'utf-8'));
+      expect(Object.keys(index).sort()).toEqual(['token0', 'token1', 'token2', 'token3', 'token4']);
+
+      const manifest = JSON.parse(await fs.readFile(path.join(testDir, 'run-1', MANIFEST_FILE), 'utf-8'));
+      expect(manifest.refs).toHaveLength(10);
+      expect(manifest.refs.every((entry: any) => entry.command === 'DelayedCommand')).toBe(true);
+    });
+
+    it('should run commands through ParallelCommand', async () => {
+      const flow = new MemoryFlow(testDir);
+      const command = new ParallelCommand(
+        [new DelayedCommand('a', 10, 'a'), new DelayedCommand('b', 1, 'b')],
+        { concurrency: 2 }
+      );
+
+      await flow.run(command);
+
+      expect(command.results).toHaveLength(2);
+      expect(await flow.get(command.results[0][0])).toBe('a');
+      expect(await flow.get(flow.Tokens.get('b')!)).toBe('b');
+    });
+  });
+
+  describe('Flows without the optional members', () => {
+    it('should run commands through get and run alone', async () => {
+      // A custom IFlow written before getJson, getBuffer and runAll existed
+      const store = new MemoryFlow(testDir);
+      const flow: IFlow = {
+        cwd: testDir,
+        set: (value, decorators) => store.set(value, decorators),
+        get: ref => store.get(ref),
+        async run(command) {
+          const refs = [];
+          for (const [value, decorators] of await command.execute(flow, [])) {
+            refs.push(await store.set(value, decorators));
+          }
+          return refs;
+        },
+      };
+
+      const parallel = new ParallelCommand([new SetCommand({ items: ['a', 'b'] }), new SetCommand('text')]);
+      await flow.run(parallel);
+      const query = await flow.run(new JsonQueryCommand(parallel.results[0][0], '$.items[1]'));
+
+      expect(await flow.get(query[0])).toBe('b');
+      expect(await flow.get(parallel.results[1][0])).toBe('text');
+    });
+  });
+
+  describe('ContextBuilder', () => {
+    it('should preload --ref tokens into the workflow context', async () => {
+      const previous = new DirectoryOutputContext(process.cwd(), testDir);
+      await previous.run(new SetCommand('from last run', 'file'));
+
+      const builder = new ContextBuilder(process.cwd(), {});
+      const context = await builder.build(testDir, 'quiet', { refs: ['file'] });
+      const flow = context.workflowContext as DirectoryOutputContext;
+
+      expect(await flow.get(flow.Tokens.get('file')!)).toBe('from last run');
+    });
+
+    it('should build an in-memory flow when persistence is disabled', async () => {
+      const previous = new DirectoryOutputContext(process.cwd(), testDir);
+      await previous.run(new SetCommand('from last run', 'file'));
+      const before = await fs.readdir(testDir);
+
+      const builder = new ContextBuilder(process.cwd(), {});
+      const context = await builder.build(testDir, 'quiet', { refs: ['file'], taskName: 'demo', persist: false });
+      const flow = context.workflowContext as MemoryFlow;
+      await flow.set('ephemeral', []);
+
+      expect(flow).toBeInstanceOf(MemoryFlow);
+      expect(await flow.get(flow.Tokens.get('file')!)).toBe('from last run');
+      expect(await fs.readdir(testDir)).toEqual(before);
+    });
+
+    it('should merge answers from config, an answers file and --answer options', async () => {
+      const answersFile = path.join(testDir, 'answers.json');
+      await fs.writeFile(answersFile, JSON.stringify({ 'task-name': 'from-file', requirements: 'from-file' }));
+
+      const resolver = new OptionResolver();
+      const answers = await resolver.resolveAnswers(process.cwd(), {
+        answers: answersFile,
+        answer: ['requirements=Summarize a=b', 'confirm-build=no'],
+        nonInteractive: true,
+      }, {});
+      const builder = new ContextBuilder(process.cwd(), { answers: { agent: 'claude', 'task-name': 'from-config' } });
+      const context = await builder.build(testDir, 'quiet', { answers, nonInteractive: true });
+
+      expect(context.config.answers).toEqual({
+        agent: 'claude',
+        'task-name': 'from-file',
+        requirements: 'Summarize a=b',
+        'confirm-build': 'no',
+      });
+      expect(context.config.nonInteractive).toBe(true);
+      await expect(resolver.resolveAnswers(process.cwd(), { answer: ['missing-value'] }, {}))
+        .rejects.toThrow('Invalid --answer "missing-value": expected id=value');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { queryJson } from '../src/json-query.js';
+import { parseCsv, stringifyCsv } from '../src/csv.js';
+import { parseCodeBlocks } from '../src/code-blocks.js';
+import { validateJsonSchema } from '../src/json-schema.js';
+
+describe('Structured Data', () => {
+  const data = {
+    store: {
+      name: 'shop',
+      'opening hours': '9-5',
+      books: [
+        { title: 'A', price: 8, tags: ['x'] },
+        { title: 'B', price: 12 },
+        { title: 'C', price: 20, tags: [] },
+      ],
+    },
+  };
+
+  describe('queryJson', () => {
+    it('should return single values for definite paths', () => {
+      expect(queryJson(data, '$.store.name')).toBe('shop');
+      expect(queryJson(data, 'store.books[1].title')).toBe('B');
+      expect(queryJson(data, "$.store['opening hours']")).toBe('9-5');
+      expect(queryJson(data, '$.store.books[-1].price')).toBe(20);
+      expect(queryJson(data, '$.store.missing')).toBeUndefined();
+    });
+
+    it('should return arrays for wildcards, slices and descendants', () => {
+      expect(queryJson(data, '$.store.books[*].title')).toEqual(['A', 'B', 'C']);
+      expect(queryJson(data, '$.store.books[0:2].price')).toEqual([8, 12]);
+      expect(queryJson(data, '$..price')).toEqual([8, 12, 20]);
+      expect(queryJson(data, '$.store.nothing[*]')).toEqual([]);
+    });
+
+    it('should filter arrays', () => {
+      expect(queryJson(data, '$.store.books[?(@.price > 10)].title')).toEqual(['B', 'C']);
+      expect(queryJson(data, "$.store.books[?(@.title == 'A')].price")).toEqual([8]);
+      expect(queryJson(data, '$.store.books[?(@.tags)].title')).toEqual(['A', 'C']);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => queryJson(data, '$.store[')).toThrow('Invalid JSONPath expression: $.store[');
+    });
+  });
+
+  describe('CSV', () => {
+    it('should parse quoted fields, embedded newlines and CRLF', () => {
+      const csv = 'name,notes\r\n"Smith, J","said ""hi""\nthen left"\r\nDoe,\r\n';
+      expect(parseCsv(csv)).toEqual([
+        { name: 'Smith, J', notes: 'said "hi"\nthen left' },
+        { name: 'Doe', notes: '' },
+      ]);
+    });
+
+    it('should parse without headers and with custom delimiters', () => {
+      expect(parseCsv('a;b\n1;2\n', { delimiter: ';', headers: false })).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCsv('a\n"open')).toThrow('unterminated quoted field');
+    });
+
+    it('should reject empty delimiters instead of looping forever', () => {
+      expect(() => parseCsv('a,b\n1,2\n', { delimiter: '' })).toThrow('Invalid CSV delimiter: ""');
+      expect(() => stringifyCsv([['a']], { delimiter: '' })).toThrow('Invalid CSV delimiter: ""');
+      expect(() => parseCsv('a\n', { delimiter: '"' })).toThrow('Invalid CSV delimiter');
+    });
+
+    it('should stringify objects with a header row', () => {
+      const rows = [{ file: 'a.ts', note: 'has, comma' }, { file: 'b.ts', issues: 2 }];
+      expect(stringifyCsv(rows)).toBe('file,note,issues\na.ts,"has, comma",\nb.ts,,2\n');
+      expect(stringifyCsv(rows, { columns: ['issues', 'file'], headers: false })).toBe(',a.ts\n2,b.ts\n');
+    });
+
+    it('should round-trip values', () => {
+      const rows = [{ a: 'x "y"', b: 'line1\nline2' }];
+      expect(parseCsv(stringifyCsv(rows))).toEqual(rows);
+    });
+  });
+
+  describe('parseCodeBlocks', () => {
+    it('should read language and filename annotations', () => {
+      const text = [
+        'Here is the code:',
+        '```ts src/a.ts',
+        'export const a = 1;',
+        '```',
+        '```typescript:src/b.ts',
+        'export const b = 2;',
+        '```',
+        '~~~python title="tool.py"',
+        'print("```")',
+        '~~~',
+        '```',
+        'plain',
+        '```',
+      ].join('\n');
+
+      expect(parseCodeBlocks(text)).toEqual([
+        { language: 'ts', filename: 'src/a.ts', content: 'export const a = 1;', line: 2 },
+        { language: 'typescript', filename: 'src/b.ts', content: 'export const b = 2;', line: 5 },
+        { language: 'python', filename: 'tool.py', content: 'print("```")', line: 8 },
+        { language: '', filename: undefined, content: 'plain', line: 11 },
+      ]);
+    });
+
+    it('should keep an unterminated block', () => {
+      const blocks = parseCodeBlocks('```js\nconst x = 1;\nconst y');
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].content).toBe('const x = 1;\nconst y');
+    });
+  });
+
+  describe('validateJsonSchema', () => {
+    const schema = {
+      type: 'object',
+      required: ['verdict', 'files'],
+      additionalProperties: false,
+      properties: {
+        verdict: { enum: ['approve', 'reject'] },
+        files: { type: 'array', minItems: 1, items: { type: 'object', required: ['path'], properties: { path: { type: 'string' }, line: { type: 'integer' } } } },
+      },
+    };
+
+    it('should accept a matching value', () => {
+      expect(validateJsonSchema({ verdict: 'approve', files: [{ path: 'a.ts', line: 3 }] }, schema)).toEqual([]);
+    });
+
+    it('should report every violation with its path', () => {
+      expect(validateJsonSchema({ verdict: 'maybe', files: [{ line: 1.5 }], extra: true }, schema)).toEqual([
+        '$.verdict: must be one of "approve", "reject"',
+        '$.files[0]: missing required property "path"',
+        '$.files[0].line: expected integer, got number',
+        '$.extra: unexpected property',
+      ]);
+      expect(validateJsonSchema([], schema)).toEqual(['$: expected object, got array']);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, diffLines, parsePatch, applyHunks } from '../src/diff.js';
+
+describe('Diff', () => {
+  describe('diffLines', () => {
+    it('should find the shortest edit script', () => {
+      expect(diffLines('a\nb\nc\n', 'a\nc\nd\n')).toEqual([
+        { type: ' ', text: 'a\n' },
+        { type: '-', text: 'b\n' },
+        { type: ' ', text: 'c\n' },
+        { type: '+', text: 'd\n' },
+      ]);
+    });
+
+    it('should replace the whole middle when the edit distance is too large to search', () => {
+      const oldText = Array.from({ length: 1500 }, (_, i) => `old ${i}\n`).join('');
+      const newText = Array.from({ length: 1500 }, (_, i) => `new ${i}\n`).join('');
+
+      const lines = diffLines('same\n' + oldText, 'same\n' + newText);
+
+      expect(lines).toHaveLength(3001);
+      expect(lines.slice(1, 1501).every(line => line.type === '-')).toBe(true);
+      expect(lines.slice(1501).every(line => line.type === '+')).toBe(true);
+      const [filePatch] = parsePatch(createUnifiedDiff(oldText, newText));
+      expect(applyHunks(oldText, filePatch.hunks).text).toBe(newText);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string for identical texts', () => {
+      expect(createUnifiedDiff('same\n', 'same\n')).toBe('');
+    });
+
+    it('should group changes into hunks with context', () => {
+      const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', '');
+
+      expect(createUnifiedDiff(oldText, newText, { oldLabel: 'a/f.txt', newLabel: 'b/f.txt' })).toBe([
+        '--- a/f.txt',
+        '+++ b/f.txt',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -15,6 +15,5 @@',
+        ' line 15',
+        ' line 16',
+        ' line 17',
+        '-line 18',
+        ' line 19',
+        ' line 20',
+        '',
+      ].join('\n'));
+    });
+
+    it('should describe new files and missing final newlines', () => {
+      expect(createUnifiedDiff('', 'one\ntwo', { oldLabel: '/dev/null', newLabel: 'b/new.txt' })).toBe([
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+one',
+        '+two',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  describe('parsePatch and applyHunks', () => {
+    const original = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n') + '\n';
+
+    it('should round-trip createUnifiedDiff output', () => {
+      const changed = original.replace('two\n', 'TWO\n').replace('seven\n', 'seven\nseven and a half\n');
+      const [filePatch] = parsePatch(createUnifiedDiff(original, changed));
+
+      expect(applyHunks(original, filePatch.hunks)).toEqual({ text: changed, rejected: [] });
+    });
+
+    it('should round-trip a changed last line when neither side ends with a newline', () => {
+      const [filePatch] = parsePatch(createUnifiedDiff('one\ntwo\nold', 'one\ntwo\nnew'));
+
+      expect(filePatch.hunks[0]).toMatchObject({ oldNoNewline: true, newNoNewline: true });
+      expect(applyHunks('one\ntwo\nold', filePatch.hunks)).toEqual({ text: 'one\ntwo\nnew', rejected: [] });
+    });
+
+    it('should ignore surrounding text and git headers', () => {
+      const patches = parsePatch([
+        'Here is the fix:',
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 123..456 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1 @@',
+        '+created',
+        '\\ No newline at end of file',
+        'Let me know if it works.',
+      ].join('\n'));
+
+      expect(patches.map(p => [p.oldPath, p.newPath, p.hunks.length])).toEqual([
+        ['a/src/a.ts', 'b/src/a.ts', 1],
+        ['/dev/null', 'b/src/new.ts', 1],
+      ]);
+      expect(applyHunks('', patches[1].hunks).text).toBe('created');
+    });
+
+    it('should apply moved hunks and use fuzz for changed context', () => {
+      const patch = parsePatch([
+        '--- a/f',
+        '+++ b/f',
+        '@@ -2,5 +2,5 @@',
+        ' two',
+        ' three',
+        '-four',
+        '+FOUR',
+        ' five',
+        ' 6',
+      ].join('\n'));
+      const shifted = 'zero\n' + original;
+
+      expect(applyHunks(shifted, patch[0].hunks, 0).rejected).toHaveLength(1);
+      expect(applyHunks(shifted, patch[0].hunks, 1).text).toBe(shifted.replace('four\n', 'FOUR\n'));
+    });
+  });
+});
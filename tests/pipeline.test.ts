@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MemoryFlow } from '../src/memory-flow.js';
+import { loadPipeline, PipelineRunner } from '../src/pipeline.js';
+import { SetCommand } from '../src/commands/set.js';
+
+describe('Pipelines', () => {
+  let testDir: string;
+  let flow: MemoryFlow;
+
+  beforeEach(async () => {
+    testDir = path.join(process.cwd(), '.test-output-pipeline');
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    await fs.mkdir(testDir, { recursive: true });
+    flow = new MemoryFlow(testDir);
+  });
+
+  afterEach(async () => {
+    // Clean up test directory
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('loadPipeline', () => {
+    it('should load YAML pipelines', async () => {
+      const file = path.join(testDir, 'pipeline.yaml');
+      await fs.writeFile(file, [
+        'name: greet',
+        'steps:',
+        '  - type: set',
+        '    args:',
+        '      value: Hello',
+        '    as: greeting',
+      ].join('\n'));
+
+      const pipeline = await loadPipeline(file);
+      expect(pipeline.name).toBe('greet');
+      expect(pipeline.steps[0]).toEqual({ type: 'set', args: { value: 'Hello' }, as: 'greeting' });
+    });
+
+    it('should load JSON pipelines', async () => {
+      const file = path.join(testDir, 'pipeline.json');
+      await fs.writeFile(file, JSON.stringify({ steps: [{ type: 'set', args: { value: 'x' } }] }));
+
+      const pipeline = await loadPipeline(file);
+      expect(pipeline.steps).toHaveLength(1);
+    });
+
+    it('should reject pipelines without steps', async () => {
+      const file = path.join(testDir, 'pipeline.yaml');
+      await fs.writeFile(file, 'name: empty\n');
+      await expect(loadPipeline(file)).rejects.toThrow('a "steps" list is required');
+    });
+  });
+
+  describe('PipelineRunner', () => {
+    it('should resolve tokens between steps', async () => {
+      const runner = new PipelineRunner(flow);
+      const results = await runner.run({
+        vars: { name: 'World' },
+        steps: [
+          { type: 'set', args: { value: 'Hello {{name}}' }, as: 'greeting' },
+          { type: 'join', args: { parts: ['{{greeting}}', '!'] }, as: 'shout' },
+          { type: 'template', args: { template: '{{shout}} ({{name}})' }, as: 'final' },
+        ],
+      });
+
+      expect(results).toHaveLength(3);
+      expect(await flow.get(flow.Tokens.get('final')!)).toBe('Hello World! (World)');
+    });
+
+    it('should read, match, replace and write files', async () => {
+      await fs.writeFile(path.join(testDir, 'input.txt'), 'version: 1.2.3');
+      const runner = new PipelineRunner(flow);
+
+      await runner.run({
+        steps: [
+          { type: 'read', args: { file: 'input.txt' }, as: 'input' },
+          { type: 'match', args: { input: '{{input}}', pattern: '(\\d+)\\.(\\d+)', tokens: ['major', 'minor'] } },
+          { type: 'replace', args: { input: 'v{{major}}.{{minor}}', replacements: { major: '{{major}}', minor: '{{minor}}' } }, as: 'short' },
+          { type: 'write', args: { file: 'out/{{major}}.txt', content: '{{short}}' } },
+        ],
+      });
+
+      expect(await fs.readFile(path.join(testDir, 'out', '1.txt'), 'utf-8')).toBe('v1.2');
+    });
+
+    it('should use tokens already present in the flow', async () => {
+      await flow.run(new SetCommand('preloaded', 'file'));
+      const runner = new PipelineRunner(flow);
+
+      await runner.run({ steps: [{ type: 'set', args: { value: '{{file}}!' }, as: 'out' }] });
+      expect(await flow.get(flow.Tokens.get('out')!)).toBe('preloaded!');
+    });
+
+    it('should report the failing step', async () => {
+      const runner = new PipelineRunner(flow);
+      await expect(runner.run({
+        steps: [
+          { type: 'set', args: { value: 'ok' } },
+          { type: 'set', name: 'broken', args: { value: '{{missing}}' } },
+        ],
+      })).rejects.toThrow('Pipeline step 2 (broken) failed: Unknown token: {{missing}}');
+    });
+
+    it('should reject unknown step types', async () => {
+      const runner = new PipelineRunner(flow);
+      await expect(runner.run({ steps: [{ type: 'nope' }] })).rejects.toThrow('Unknown pipeline step type: nope');
+    });
+
+    it('should branch with if steps', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { status: 'FAILED' },
+        steps: [{
+          type: 'if',
+          args: {
+            input: '{{status}}',
+            matches: 'FAIL',
+            then: [{ type: 'set', args: { value: 'broken' }, as: 'result' }],
+            else: [{ type: 'set', args: { value: 'fine' }, as: 'result' }],
+          },
+        }],
+      });
+
+      expect(await flow.get(flow.Tokens.get('result')!)).toBe('broken');
+    });
+
+    it('should loop over items with foreach steps', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { files: 'a\nb' },
+        steps: [
+          { type: 'set', args: { value: '' }, as: 'all' },
+          {
+            type: 'foreach',
+            args: {
+              input: '{{files}}',
+              do: [{ type: 'set', args: { value: '{{all}}[{{item}}]' }, as: 'all' }],
+            },
+          },
+        ],
+      });
+
+      expect(await flow.get(flow.Tokens.get('all')!)).toBe('[a][b]');
+    });
+
+    it('should run parallel steps', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        steps: [{
+          type: 'parallel',
+          args: {
+            concurrency: 2,
+            steps: [
+              { type: 'set', args: { value: 'one' }, as: 'first' },
+              { type: 'set', args: { value: 'two' }, as: 'second' },
+            ],
+          },
+        }],
+      });
+
+      expect(await flow.get(flow.Tokens.get('first')!)).toBe('one');
+      expect(await flow.get(flow.Tokens.get('second')!)).toBe('two');
+    });
+
+    it('should run programs with exec steps', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { name: 'pipeline' },
+        steps: [{
+          type: 'exec',
+          args: { command: process.execPath, args: ['-e', 'process.stdout.write(process.argv[1])', '{{name}}'] },
+          as: ['out', 'err', 'code'],
+        }],
+      });
+
+      expect(await flow.get(flow.Tokens.get('out')!)).toBe('pipeline');
+      expect(await flow.get(flow.Tokens.get('code')!)).toBe('0');
+    });
+
+    it('should query JSON and write CSV', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { answer: '{"files": [{"path": "a.ts", "issues": 1}, {"path": "b.ts", "issues": 0}]}' },
+        steps: [
+          { type: 'query', args: { input: '{{answer}}', path: '$.files[?(@.issues > 0)]' }, as: 'failing' },
+          { type: 'csv-write', args: { input: '{{failing}}' }, as: 'report' },
+        ],
+      });
+
+      expect(await flow.get(flow.Tokens.get('report')!)).toBe('path,issues\na.ts,1\n');
+    });
+
+    it('should extract code and JSON from agent responses', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { answer: 'Plan:\n```json\n{"files": ["a.ts"]}\n```\nCode:\n```ts\nexport const a = 1;\n```' },
+        steps: [
+          { type: 'extract-code', args: { input: '{{answer}}', language: 'ts' }, as: 'code' },
+          { type: 'parse-json', args: { input: '{{answer}}', schema: { type: 'object', required: ['files'] } }, as: 'plan' },
+        ],
+      });
+
+      expect(await flow.get(flow.Tokens.get('code')!)).toBe('export const a = 1;');
+      expect(await flow.getJson(flow.Tokens.get('plan')!)).toEqual({ files: ['a.ts'] });
+    });
+
+    it('should collect matches from several inputs', async () => {
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { a: 'TODO: one\nTODO: two', b: 'nothing here' },
+        steps: [
+          { type: 'match', args: { input: ['{{a}}', '{{b}}'], pattern: 'TODO: (?<task>.+)', global: true }, as: 'todos' },
+          { type: 'query', args: { input: '{{todos}}', path: '$[*].groups.task' }, as: 'tasks' },
+        ],
+      });
+
+      expect(await flow.getJson(flow.Tokens.get('tasks')!)).toEqual(['one', 'two']);
+    });
+
+    it('should copy a folder with glob and write-many', async () => {
+      await fs.mkdir(path.join(testDir, 'docs'), { recursive: true });
+      await fs.writeFile(path.join(testDir, 'docs', 'a.md'), '# A');
+      await fs.writeFile(path.join(testDir, 'docs', 'b.md'), '# B');
+
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        steps: [
+          { type: 'glob', args: { pattern: 'docs/*.md' }, as: 'docs' },
+          { type: 'write-many', args: { files: '{{docs}}', dir: 'copy' } },
+        ],
+      });
+
+      expect(await fs.readFile(path.join(testDir, 'copy', 'docs', 'b.md'), 'utf-8')).toBe('# B');
+    });
+
+    it('should preview and apply a change with diff and apply-patch', async () => {
+      await fs.writeFile(path.join(testDir, 'notes.txt'), 'alpha\nbeta\n');
+
+      const runner = new PipelineRunner(flow);
+      await runner.run({
+        vars: { proposed: 'alpha\nBETA\n' },
+        steps: [
+          { type: 'diff', args: { oldFile: 'notes.txt', new: '{{proposed}}' }, as: 'patch' },
+          { type: 'apply-patch', args: { patch: '{{patch}}' }, as: ['report', 'rejects'] },
+        ],
+      });
+
+      expect(await flow.get(flow.Tokens.get('patch')!)).toContain('+BETA');
+      expect(await fs.readFile(path.join(testDir, 'notes.txt'), 'utf-8')).toBe('alpha\nBETA\n');
+    });
+
+    it('should allow registering custom step types', async () => {
+      const runner = new PipelineRunner(flow);
+      runner.register('upper', async (args, runtime) => new SetCommand((await runtime.interpolate(args.text)).toUpperCase()));
+
+      await runner.run({ steps: [{ type: 'upper', args: { text: 'loud' }, as: 'out' }] });
+      expect(await flow.get(flow.Tokens.get('out')!)).toBe('LOUD');
+    });
+  });
+});
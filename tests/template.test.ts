@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from '../src/template-engine.js';
+
+/**
+ * Render a template against a plain object of top-level values
+ */
+function render(template: string, values: Record<string, any> = {}, partials: Record<string, string> = {}) {
+  return renderTemplate(template, {
+    resolve: async (name) => values[name],
+    loadPartial: async (name) => {
+      if (!(name in partials)) {
+        throw new Error(`missing partial ${name}`);
+      }
+      return partials[name];
+    },
+  });
+}
+
+describe('Template Engine', () => {
+  describe('Expressions', () => {
+    it('should replace tokens and leave unknown ones in place', async () => {
+      expect(await render('Hello {{ name }}! {{unknown}}', { name: 'World' })).toBe('Hello World! {{unknown}}');
+    });
+
+    it('should reach into JSON values with dotted and indexed paths', async () => {
+      const values = { user: { name: 'Alice', roles: ['admin', 'dev'] }, items: [{ path: 'a.ts' }] };
+      expect(await render('{{user.name}} {{user.roles[1]}} {{items[0].path}}', values)).toBe('Alice dev a.ts');
+    });
+
+    it('should prefer names that contain dots', async () => {
+      expect(await render('{{report.md}}', { 'report.md': 'whole token' })).toBe('whole token');
+    });
+
+    it('should render objects as JSON', async () => {
+      expect(await render('{{config}}', { config: { a: 1 } })).toBe('{\n  "a": 1\n}');
+    });
+  });
+
+  describe('Filters', () => {
+    it('should apply filters left to right', async () => {
+      expect(await render('{{name | trim | upper}}', { name: '  bob ' })).toBe('BOB');
+    });
+
+    it('should support json, indent and default', async () => {
+      expect(await render('{{data | json}}', { data: [1] })).toBe('[\n  1\n]');
+      expect(await render('-\n{{text | indent 4}}', { text: 'a\nb' })).toBe('-\n    a\n    b');
+      expect(await render('{{missing | default "none"}}')).toBe('none');
+      expect(await render('{{name | default "x|y"}}', { name: '' })).toBe('x|y');
+    });
+
+    it('should join arrays', async () => {
+      expect(await render('{{files | join ", "}}', { files: ['a', 'b'] })).toBe('a, b');
+    });
+
+    it('should reject unknown filters', async () => {
+      await expect(render('{{name | shout}}', { name: 'x' })).rejects.toThrow('Unknown template filter: shout');
+    });
+  });
+
+  describe('Blocks', () => {
+    it('should render if/else blocks', async () => {
+      const template = '{{#if errors}}Errors: {{errors}}{{else}}Clean{{/if}}';
+      expect(await render(template, { errors: '2' })).toBe('Errors: 2');
+      expect(await render(template, { errors: '' })).toBe('Clean');
+      expect(await render(template, { errors: [] })).toBe('Clean');
+    });
+
+    it('should loop over arrays with loop variables', async () => {
+      const template = '{{#each files}}{{@index}}:{{this}}{{#if @last}}.{{else}}, {{/if}}{{/each}}';
+      expect(await render(template, { files: ['a.ts', 'b.ts'] })).toBe('0:a.ts, 1:b.ts.');
+    });
+
+    it('should loop over text lines and object properties', async () => {
+      expect(await render('{{#each list}}[{{this}}]{{/each}}', { list: 'a\n\nb\n' })).toBe('[a][b]');
+      expect(await render('{{#each map}}{{key}}={{value}};{{/each}}', { map: { x: 1, y: 2 } })).toBe('x=1;y=2;');
+    });
+
+    it('should expose item properties and named items', async () => {
+      const values = { files: [{ path: 'a.ts' }, { path: 'b.ts' }], prefix: '>' };
+      expect(await render('{{#each files}}{{prefix}}{{path}} {{/each}}', values)).toBe('>a.ts >b.ts ');
+      expect(await render('{{#each files as file}}{{file.path}};{{/each}}', values)).toBe('a.ts;b.ts;');
+    });
+
+    it('should render the else branch of empty loops', async () => {
+      expect(await render('{{#each files}}x{{else}}no files{{/each}}', { files: [] })).toBe('no files');
+    });
+
+    it('should report unbalanced blocks', async () => {
+      await expect(render('{{#if a}}open')).rejects.toThrow('Unclosed {{#if}} block at line 1, column 1');
+      await expect(render('{{#each a}}{{/if}}')).rejects.toThrow('Unexpected {{/if}}');
+    });
+  });
+
+  describe('Strict mode', () => {
+    it('should list unresolved placeholders with positions', async () => {
+      const error = await renderTemplate('a\n  {{x}}\n{{#each items}}{{missing}}{{/each}}', {
+        resolve: async (name) => name === 'items' ? [1] : undefined,
+        strict: true,
+      }).catch(error => error);
+
+      expect(error.message).toBe(
+        'Unresolved template placeholder(s):\n' +
+        '  {{x}} at line 2, column 3\n' +
+        '  {{missing}} at line 3, column 16'
+      );
+    });
+
+    it('should name the partial an unresolved placeholder is in', async () => {
+      await expect(renderTemplate('{{> footer.md}}', {
+        resolve: async () => undefined,
+        loadPartial: async () => 'line\n{{sig}}',
+        strict: true,
+      })).rejects.toThrow('{{sig}} at line 2, column 1 (in footer.md)');
+    });
+
+    it('should allow missing values handled by filters and conditions', async () => {
+      const output = await renderTemplate('{{#if notes}}{{notes}}{{/if}}{{name | default "x"}}', {
+        resolve: async () => undefined,
+        strict: true,
+      });
+      expect(output).toBe('x');
+    });
+  });
+
+  describe('Partials', () => {
+    it('should render partials with the current scope', async () => {
+      const partials = { 'file.md': '* {{this}}\n' };
+      expect(await render('{{#each files}}{{> file.md}}{{/each}}', { files: ['a', 'b'] }, partials)).toBe('* a\n* b\n');
+    });
+
+    it('should stop partials that include themselves', async () => {
+      await expect(render('{{> loop}}', {}, { loop: '{{> loop}}' })).rejects.toThrow('nested more than 10 levels');
+    });
+  });
+});